@@ -0,0 +1,119 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// Minimal confidential ERC-20 style token with encrypted balances. Transfers never revert on
+// insufficient funds: they move an encrypted zero instead, so failures leak nothing on-chain.
+contract ConfidentialToken is SepoliaConfig {
+    using FHE for euint64;
+
+    uint8 public constant decimals = 6;
+
+    string public name;
+    string public symbol;
+    address public owner;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event ConfidentialTransfer(address indexed from, address indexed to, uint256 encryptedAmount);
+
+    error NotOwner();
+    error InvalidParameter();
+    error UnauthorizedSpender();
+    error UnauthorizedUseOfEncryptedAmount();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    // Lets `operator` move any of the caller's balance until the `until` timestamp.
+    function setOperator(address operator, uint48 until) external {
+        if (operator == address(0)) revert InvalidParameter();
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    // Mock issuance for local and test networks; the minted amount is public.
+    function mint(address to, uint64 amount) external onlyOwner returns (euint64 minted) {
+        if (to == address(0)) revert InvalidParameter();
+        minted = _update(address(0), to, FHE.asEuint64(amount));
+    }
+
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidParameter();
+        transferred = _update(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    // Contract-facing variant: the caller must already have ACL access to `amount`.
+    function confidentialTransferHandle(address to, euint64 amount) external returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidParameter();
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedUseOfEncryptedAmount();
+        transferred = _update(msg.sender, to, amount);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidParameter();
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender();
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedUseOfEncryptedAmount();
+        transferred = _update(from, to, amount);
+    }
+
+    // Moves `amount` if `from` can cover it and `to` cannot overflow, otherwise moves zero.
+    // `from == address(0)` mints.
+    function _update(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        euint64 toBalance = _balances[to];
+        ebool ok = FHE.ge(toBalance.add(amount), toBalance);
+        if (from != address(0)) {
+            ok = FHE.and(ok, FHE.le(amount, _balances[from]));
+        }
+        transferred = FHE.select(ok, amount, FHE.asEuint64(0));
+
+        if (from != address(0)) {
+            euint64 fromBalance = _balances[from].sub(transferred);
+            _balances[from] = fromBalance;
+            FHE.allowThis(fromBalance);
+            FHE.allow(fromBalance, from);
+            FHE.allow(transferred, from);
+        }
+        toBalance = toBalance.add(transferred);
+        _balances[to] = toBalance;
+        FHE.allowThis(toBalance);
+        FHE.allow(toBalance, to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, to);
+        FHE.allow(transferred, msg.sender);
+
+        emit ConfidentialTransfer(from, to, uint256(transferred.toBytes32()));
+    }
+}
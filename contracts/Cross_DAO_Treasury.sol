@@ -1,13 +1,29 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, euint128, externalEuint64, ebool, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ConfidentialToken } from "./ConfidentialToken.sol";
 
 contract CrossDaoTreasuryFHE is SepoliaConfig {
-    using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
-    address public owner;
+    // Every encrypted amount is a fixed-point value with this many decimals.
+    uint8 public constant AMOUNT_DECIMALS = 6;
+
+    uint256 public constant MINIMUM_TIMELOCK_DELAY = 1 hours;
+    uint256 public constant MAXIMUM_TIMELOCK_DELAY = 30 days;
+    // A queued operation that is not executed within this window after its ETA goes stale.
+    uint256 public constant TIMELOCK_GRACE_PERIOD = 14 days;
+
+    // Pooled funds are held in this token; providers must make the treasury an operator before depositing.
+    ConfidentialToken public immutable token;
+
+    // Administrative calls need `councilThreshold` approvals from council members, each a provider DAO.
+    address[] private _councilMembers;
+    mapping(address => bool) public isCouncilMember;
+    uint256 public councilThreshold;
+
     mapping(address => bool) public isProvider;
     bool public paused;
     uint256 public cooldownSeconds;
@@ -16,8 +32,15 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
 
     uint256 public currentBatchId;
     mapping(uint256 => bool) public batchClosed;
-    mapping(uint256 => euint32) public encryptedTotalInvestment;
+    mapping(uint256 => euint64) public encryptedTotalInvestment;
+    mapping(uint256 => mapping(address => euint64)) public encryptedContributions;
+    // Submissions still counted in each batch; a withdrawal gives back every slot the provider used.
     mapping(uint256 => uint256) public numContributionsInBatch;
+    mapping(uint256 => mapping(address => uint256)) public numContributionsBy;
+    // Optional submission window per batch; zero means no limit. Once either limit is reached
+    // the batch refuses submissions and anyone can close it.
+    mapping(uint256 => uint256) public batchClosesAt;
+    mapping(uint256 => uint256) public batchMaxContributions;
 
     struct DecryptionContext {
         uint256 batchId;
@@ -25,31 +48,164 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
         bool processed;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
-
-    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    mapping(uint256 => bool) public batchTotalRevealed;
+    mapping(uint256 => uint64) public revealedTotalInvestment;
+
+    // Minimum raise per batch. Only the result of `total >= target` is ever decrypted.
+    mapping(uint256 => euint64) public encryptedFundingTarget;
+    mapping(uint256 => ebool) public encryptedTargetReached;
+    mapping(uint256 => DecryptionContext) public targetCheckContexts;
+    // One comparison is in flight per batch; later requests share it until the oracle answers.
+    mapping(uint256 => bool) public targetCheckPending;
+    mapping(uint256 => uint256) public targetCheckRequestId;
+    mapping(uint256 => bool) public fundingTargetChecked;
+    mapping(uint256 => bool) public fundingTargetReached;
+
+    // A closed batch's pooled principal leaves the treasury once, to the recipient the council queued.
+    mapping(uint256 => bool) public batchDisbursed;
+    mapping(uint256 => bool) public batchSettled;
+    mapping(uint256 => euint64) public encryptedReturnedAmount;
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+    mapping(uint256 => mapping(address => euint64)) public encryptedPayouts;
+
+    struct Proposal {
+        uint256 batchId;
+        address proposer;
+        uint256 deadline;
+        string description;
+        bool tallyRevealed;
+        // Contribution-weighted tallies, filled in when the tally is revealed.
+        uint64 yesVotes;
+        uint64 noVotes;
+    }
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => euint64) public encryptedYesVotes;
+    mapping(uint256 => euint64) public encryptedNoVotes;
+    mapping(uint256 => uint256) public numVotes;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => mapping(address => euint64)) public encryptedVotingWeight;
+
+    struct TallyContext {
+        uint256 proposalId;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => TallyContext) public tallyContexts;
+
+    // Sensitive council calls are queued as calldata to this contract and can only run after their ETA.
+    struct Operation {
+        bytes data;
+        uint256 eta;
+        bool executed;
+        bool cancelled;
+    }
+    uint256 public timelockDelay;
+    uint256 public operationCount;
+    mapping(uint256 => Operation) public operations;
+
+    // A council action is a call to a council-gated function on this contract, proposed by one member.
+    struct CouncilAction {
+        bytes data;
+        address proposer;
+        bool executed;
+    }
+    uint256 public councilActionCount;
+    mapping(uint256 => CouncilAction) public councilActions;
+    mapping(uint256 => mapping(address => bool)) public hasApprovedAction;
+
+    event CouncilMemberAdded(address indexed member);
+    event CouncilMemberRemoved(address indexed member);
+    event CouncilThresholdSet(uint256 indexed oldThreshold, uint256 indexed newThreshold);
+    event CouncilActionProposed(
+        uint256 indexed actionId,
+        address indexed proposer,
+        bytes4 indexed selector,
+        bytes data
+    );
+    event CouncilActionApproved(uint256 indexed actionId, address indexed member);
+    event CouncilApprovalRevoked(uint256 indexed actionId, address indexed member);
+    event CouncilActionExecuted(uint256 indexed actionId, address indexed executor);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event PauseToggled(bool indexed isPaused);
     event CooldownSecondsSet(uint256 indexed oldCooldownSeconds, uint256 indexed newCooldownSeconds);
-    event BatchOpened(uint256 indexed batchId);
+    event BatchOpened(uint256 indexed batchId, uint256 closesAt, uint256 maxContributions);
     event BatchClosed(uint256 indexed batchId);
     event InvestmentSubmitted(address indexed provider, uint256 indexed batchId, uint256 encryptedAmount);
+    event ContributionWithdrawn(address indexed provider, uint256 indexed batchId, uint256 encryptedAmount);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalInvestment);
-
-    error NotOwner();
+    event FundingTargetSet(uint256 indexed batchId);
+    event FundingTargetCheckRequested(uint256 indexed requestId, uint256 indexed batchId);
+    event FundingTargetChecked(uint256 indexed requestId, uint256 indexed batchId, bool reached);
+    event BatchDisbursed(uint256 indexed batchId, address indexed recipient, uint256 encryptedAmount);
+    event ReturnsDeposited(uint256 indexed batchId, address indexed from, uint256 encryptedAmount);
+    event BatchSettled(uint256 indexed batchId, uint256 encryptedReturnedAmount);
+    event PayoutClaimed(address indexed provider, uint256 indexed batchId, uint256 encryptedPayout);
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        uint256 indexed batchId,
+        address indexed proposer,
+        uint256 deadline,
+        string description
+    );
+    event VoteCast(uint256 indexed proposalId, address indexed voter);
+    event TallyRequested(uint256 indexed requestId, uint256 indexed proposalId);
+    event TallyRevealed(uint256 indexed requestId, uint256 indexed proposalId, uint256 yesVotes, uint256 noVotes);
+    event OperationQueued(uint256 indexed operationId, bytes4 indexed selector, bytes data, uint256 eta);
+    event OperationExecuted(uint256 indexed operationId);
+    event OperationCancelled(uint256 indexed operationId);
+    event TimelockDelaySet(uint256 indexed oldDelay, uint256 indexed newDelay);
+
+    error NotCouncilMember();
     error NotProvider();
     error Paused();
     error CooldownActive();
     error BatchClosedOrInvalid();
     error ReplayAttempt();
     error StateMismatch();
-    error InvalidSignature();
     error NotInitialized();
     error InvalidParameter();
+    error UnknownProposal();
+    error VotingClosed();
+    error VotingOpen();
+    error AlreadyVoted();
+    error TallyAlreadyRevealed();
+    error NoVotingPower();
+    error BatchStillOpen();
+    error TotalNotRevealed();
+    error AlreadySettled();
+    error NotSettled();
+    error AlreadyClaimed();
+    error TimelockRequired();
+    error UnknownOperation();
+    error OperationNotPending();
+    error TimelockNotReady();
+    error OperationExpired();
+    error CouncilApprovalRequired();
+    error UnknownCouncilAction();
+    error CouncilActionNotPending();
+    error AlreadyApproved();
+    error NotApproved();
+    error ThresholdNotMet();
+    error BatchWindowElapsed();
+    error BatchWindowOpen();
+    error TargetAlreadyChecked();
+    error AlreadyDisbursed();
+
+    modifier onlyCouncilMember() {
+        if (!isCouncilMember[msg.sender]) revert NotCouncilMember();
+        _;
+    }
 
-    modifier onlyOwner() {
-        if (msg.sender != owner) revert NotOwner();
+    modifier onlyCouncil() {
+        if (msg.sender != address(this)) revert CouncilApprovalRequired();
+        _;
+    }
+
+    modifier onlyTimelock() {
+        if (msg.sender != address(this)) revert TimelockRequired();
         _;
     }
 
@@ -63,22 +219,182 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
         _;
     }
 
-    constructor() {
-        owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
+    constructor(address _token, address[] memory _council, uint256 _councilThreshold) {
+        if (_token == address(0)) revert InvalidParameter();
+        token = ConfidentialToken(_token);
+        for (uint256 i = 0; i < _council.length; i++) {
+            _addCouncilMember(_council[i]);
+        }
+        _setCouncilThreshold(_councilThreshold);
         cooldownSeconds = 60; 
+        timelockDelay = 2 days;
         currentBatchId = 1;
-        emit BatchOpened(currentBatchId);
+        emit BatchOpened(currentBatchId, 0, 0);
     }
 
-    function transferOwnership(address newOwner) external onlyOwner {
-        address previousOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(previousOwner, newOwner);
+    function getCouncilMembers() external view returns (address[] memory) {
+        return _councilMembers;
+    }
+
+    function _addCouncilMember(address member) internal {
+        if (member == address(0) || isCouncilMember[member]) revert InvalidParameter();
+        isCouncilMember[member] = true;
+        _councilMembers.push(member);
+        if (!isProvider[member]) {
+            isProvider[member] = true;
+            emit ProviderAdded(member);
+        }
+        emit CouncilMemberAdded(member);
     }
 
-    function addProvider(address provider) external onlyOwner {
+    function _setCouncilThreshold(uint256 newThreshold) internal {
+        if (newThreshold == 0 || newThreshold > _councilMembers.length) revert InvalidParameter();
+        uint256 oldThreshold = councilThreshold;
+        councilThreshold = newThreshold;
+        emit CouncilThresholdSet(oldThreshold, newThreshold);
+    }
+
+    function addCouncilMember(address member) external onlyTimelock {
+        _addCouncilMember(member);
+    }
+
+    // The member stays a provider; the council may never shrink below its threshold.
+    function removeCouncilMember(address member) external onlyTimelock {
+        if (!isCouncilMember[member] || _councilMembers.length <= councilThreshold) revert InvalidParameter();
+        isCouncilMember[member] = false;
+        for (uint256 i = 0; i < _councilMembers.length; i++) {
+            if (_councilMembers[i] == member) {
+                _councilMembers[i] = _councilMembers[_councilMembers.length - 1];
+                _councilMembers.pop();
+                break;
+            }
+        }
+        emit CouncilMemberRemoved(member);
+    }
+
+    function setCouncilThreshold(uint256 newThreshold) external onlyTimelock {
+        _setCouncilThreshold(newThreshold);
+    }
+
+    function _isCouncilAction(bytes4 selector) internal pure returns (bool) {
+        return selector == this.addProvider.selector
+            || selector == this.openNewBatch.selector
+            || selector == this.closeCurrentBatch.selector
+            || selector == this.settleBatch.selector
+            || selector == this.setFundingTarget.selector
+            || selector == this.queueOperation.selector
+            || selector == this.cancelOperation.selector;
+    }
+
+    function _callSelf(bytes memory data) internal {
+        (bool success, bytes memory result) = address(this).call(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function _getPendingCouncilAction(uint256 actionId) internal view returns (CouncilAction storage action) {
+        action = councilActions[actionId];
+        if (action.proposer == address(0)) revert UnknownCouncilAction();
+        if (action.executed) revert CouncilActionNotPending();
+    }
+
+    function proposeCouncilAction(bytes calldata data) external onlyCouncilMember returns (uint256 actionId) {
+        if (data.length < 4 || !_isCouncilAction(bytes4(data[:4]))) revert InvalidParameter();
+
+        actionId = ++councilActionCount;
+        councilActions[actionId] = CouncilAction({ data: data, proposer: msg.sender, executed: false });
+        emit CouncilActionProposed(actionId, msg.sender, bytes4(data[:4]), data);
+
+        hasApprovedAction[actionId][msg.sender] = true;
+        emit CouncilActionApproved(actionId, msg.sender);
+    }
+
+    function approveCouncilAction(uint256 actionId) external onlyCouncilMember {
+        _getPendingCouncilAction(actionId);
+        if (hasApprovedAction[actionId][msg.sender]) revert AlreadyApproved();
+        hasApprovedAction[actionId][msg.sender] = true;
+        emit CouncilActionApproved(actionId, msg.sender);
+    }
+
+    function revokeCouncilApproval(uint256 actionId) external onlyCouncilMember {
+        _getPendingCouncilAction(actionId);
+        if (!hasApprovedAction[actionId][msg.sender]) revert NotApproved();
+        hasApprovedAction[actionId][msg.sender] = false;
+        emit CouncilApprovalRevoked(actionId, msg.sender);
+    }
+
+    // Only current members count, so approvals from removed members lapse.
+    function councilApprovals(uint256 actionId) public view returns (uint256 approvals) {
+        for (uint256 i = 0; i < _councilMembers.length; i++) {
+            if (hasApprovedAction[actionId][_councilMembers[i]]) approvals++;
+        }
+    }
+
+    function executeCouncilAction(uint256 actionId) external onlyCouncilMember {
+        CouncilAction storage action = _getPendingCouncilAction(actionId);
+        if (councilApprovals(actionId) < councilThreshold) revert ThresholdNotMet();
+
+        action.executed = true;
+        _callSelf(action.data);
+
+        emit CouncilActionExecuted(actionId, msg.sender);
+    }
+
+    function _isTimelocked(bytes4 selector) internal pure returns (bool) {
+        return selector == this.setPaused.selector
+            || selector == this.setCooldownSeconds.selector
+            || selector == this.removeProvider.selector
+            || selector == this.setTimelockDelay.selector
+            || selector == this.addCouncilMember.selector
+            || selector == this.removeCouncilMember.selector
+            || selector == this.setCouncilThreshold.selector
+            || selector == this.disburseBatch.selector;
+    }
+
+    function queueOperation(bytes calldata data) external onlyCouncil returns (uint256 operationId) {
+        if (data.length < 4 || !_isTimelocked(bytes4(data[:4]))) revert InvalidParameter();
+
+        operationId = ++operationCount;
+        uint256 eta = block.timestamp + timelockDelay;
+        operations[operationId] = Operation({ data: data, eta: eta, executed: false, cancelled: false });
+
+        emit OperationQueued(operationId, bytes4(data[:4]), data, eta);
+    }
+
+    function _getPendingOperation(uint256 operationId) internal view returns (Operation storage operation) {
+        operation = operations[operationId];
+        if (operation.eta == 0) revert UnknownOperation();
+        if (operation.executed || operation.cancelled) revert OperationNotPending();
+    }
+
+    function cancelOperation(uint256 operationId) external onlyCouncil {
+        _getPendingOperation(operationId).cancelled = true;
+        emit OperationCancelled(operationId);
+    }
+
+    // The council already approved queueing the operation, so any member may run it once it is due.
+    function executeOperation(uint256 operationId) external onlyCouncilMember {
+        Operation storage operation = _getPendingOperation(operationId);
+        if (block.timestamp < operation.eta) revert TimelockNotReady();
+        if (block.timestamp > operation.eta + TIMELOCK_GRACE_PERIOD) revert OperationExpired();
+
+        operation.executed = true;
+        _callSelf(operation.data);
+
+        emit OperationExecuted(operationId);
+    }
+
+    function setTimelockDelay(uint256 newDelay) external onlyTimelock {
+        if (newDelay < MINIMUM_TIMELOCK_DELAY || newDelay > MAXIMUM_TIMELOCK_DELAY) revert InvalidParameter();
+        uint256 oldDelay = timelockDelay;
+        timelockDelay = newDelay;
+        emit TimelockDelaySet(oldDelay, newDelay);
+    }
+
+    function addProvider(address provider) external onlyCouncil {
         if (provider == address(0)) revert InvalidParameter();
         if (!isProvider[provider]) {
             isProvider[provider] = true;
@@ -86,71 +402,147 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
         }
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (provider == address(0)) revert InvalidParameter();
+    function removeProvider(address provider) external onlyTimelock {
+        // Council members have to leave the council first.
+        if (provider == address(0) || isCouncilMember[provider]) revert InvalidParameter();
         if (isProvider[provider]) {
             isProvider[provider] = false;
             emit ProviderRemoved(provider);
         }
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    function setPaused(bool _paused) external onlyTimelock {
         paused = _paused;
         emit PauseToggled(_paused);
     }
 
-    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyTimelock {
         uint256 oldCooldown = cooldownSeconds;
         cooldownSeconds = _cooldownSeconds;
         emit CooldownSecondsSet(oldCooldown, _cooldownSeconds);
     }
 
-    function openNewBatch() external onlyOwner whenNotPaused {
+    // Withdrawals, closing, decryption and settlement only reach the current batch, so an open one
+    // has to be closed first or its contributions would be stranded.
+    function openNewBatch(uint256 closesAt, uint256 maxContributions) external onlyCouncil whenNotPaused {
+        if (!batchClosed[currentBatchId]) revert BatchStillOpen();
+        if (closesAt != 0 && closesAt <= block.timestamp) revert InvalidParameter();
         currentBatchId++;
         batchClosed[currentBatchId] = false;
-        emit BatchOpened(currentBatchId);
+        batchClosesAt[currentBatchId] = closesAt;
+        batchMaxContributions[currentBatchId] = maxContributions;
+        emit BatchOpened(currentBatchId, closesAt, maxContributions);
     }
 
-    function closeCurrentBatch() external onlyOwner whenNotPaused {
+    function batchWindowElapsed(uint256 batchId) public view returns (bool) {
+        uint256 closesAt = batchClosesAt[batchId];
+        uint256 maxContributions = batchMaxContributions[batchId];
+        return (closesAt != 0 && block.timestamp >= closesAt)
+            || (maxContributions != 0 && numContributionsInBatch[batchId] >= maxContributions);
+    }
+
+    function _closeCurrentBatch() internal {
         if (batchClosed[currentBatchId]) revert BatchClosedOrInvalid();
         batchClosed[currentBatchId] = true;
         emit BatchClosed(currentBatchId);
     }
 
-    function _initIfNeeded() internal {
-        if (!FHE.isInitialized()) {
-            FHE.initialize();
-        }
+    function closeCurrentBatch() external onlyCouncil whenNotPaused {
+        _closeCurrentBatch();
+    }
+
+    // Permissionless, so a batch whose window is over does not wait on the council.
+    function closeElapsedBatch() external whenNotPaused {
+        if (!batchWindowElapsed(currentBatchId)) revert BatchWindowOpen();
+        _closeCurrentBatch();
     }
 
-    function _requireInitialized() internal view {
-        if (!FHE.isInitialized()) revert NotInitialized();
+    function _requireInitialized(euint64 value) internal pure {
+        if (!FHE.isInitialized(value)) revert NotInitialized();
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function submitEncryptedInvestment(euint32 encryptedAmount) external onlyProvider whenNotPaused {
+    function submitEncryptedInvestment(
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
         uint256 currentTime = block.timestamp;
         if (currentTime - lastSubmissionTime[msg.sender] < cooldownSeconds) {
             revert CooldownActive();
         }
         if (batchClosed[currentBatchId]) revert BatchClosedOrInvalid();
+        if (batchWindowElapsed(currentBatchId)) revert BatchWindowElapsed();
 
-        _initIfNeeded();
-        _requireInitialized();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _requireInitialized(amount);
 
         lastSubmissionTime[msg.sender] = currentTime;
 
-        if (numContributionsInBatch[currentBatchId] == 0) {
-            encryptedTotalInvestment[currentBatchId] = encryptedAmount;
-        } else {
-            encryptedTotalInvestment[currentBatchId] = encryptedTotalInvestment[currentBatchId].add(encryptedAmount);
+        euint64 total = encryptedTotalInvestment[currentBatchId];
+        bool firstContribution = !FHE.isInitialized(total);
+        if (!firstContribution) {
+            // Encrypted addition wraps silently, so a contribution that would overflow the
+            // batch total is counted as zero instead. The provider can tell by decrypting
+            // the amount handle in `InvestmentSubmitted`.
+            ebool overflow = FHE.lt(total.add(amount), total);
+            amount = FHE.select(overflow, FHE.asEuint64(0), amount);
         }
+
+        // The token moves zero when the provider's balance cannot cover the amount, so only
+        // what actually reached the pool is counted.
+        FHE.allowTransient(amount, address(token));
+        amount = token.confidentialTransferFrom(msg.sender, address(this), amount);
+        encryptedTotalInvestment[currentBatchId] = firstContribution ? amount : total.add(amount);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allowThis(encryptedTotalInvestment[currentBatchId]);
         numContributionsInBatch[currentBatchId]++;
+        numContributionsBy[currentBatchId][msg.sender]++;
+
+        euint64 contribution = encryptedContributions[currentBatchId][msg.sender];
+        if (FHE.isInitialized(contribution)) {
+            contribution = contribution.add(amount);
+        } else {
+            contribution = amount;
+        }
+        encryptedContributions[currentBatchId][msg.sender] = contribution;
+        FHE.allowThis(contribution);
+        FHE.allow(contribution, msg.sender);
+
+        emit InvestmentSubmitted(msg.sender, currentBatchId, uint256(amount.toBytes32()));
+
+        // The contribution that fills the batch closes it; deadlines still need `closeElapsedBatch`.
+        if (numContributionsInBatch[currentBatchId] == batchMaxContributions[currentBatchId]) {
+            _closeCurrentBatch();
+        }
+    }
 
-        emit InvestmentSubmitted(msg.sender, currentBatchId, encryptedAmount.toBytes32());
+    function withdrawContribution() external onlyProvider whenNotPaused {
+        if (batchClosed[currentBatchId]) revert BatchClosedOrInvalid();
+        if (batchWindowElapsed(currentBatchId)) revert BatchWindowElapsed();
+
+        euint64 contribution = encryptedContributions[currentBatchId][msg.sender];
+        _requireInitialized(contribution);
+
+        euint64 total = encryptedTotalInvestment[currentBatchId].sub(contribution);
+        encryptedTotalInvestment[currentBatchId] = total;
+        FHE.allowThis(total);
+
+        euint64 remaining = FHE.asEuint64(0);
+        encryptedContributions[currentBatchId][msg.sender] = remaining;
+        numContributionsInBatch[currentBatchId] -= numContributionsBy[currentBatchId][msg.sender];
+        numContributionsBy[currentBatchId][msg.sender] = 0;
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, msg.sender);
+
+        FHE.allowTransient(contribution, address(token));
+        euint64 returned = token.confidentialTransferHandle(msg.sender, contribution);
+
+        emit ContributionWithdrawn(msg.sender, currentBatchId, uint256(returned.toBytes32()));
     }
 
     function requestBatchTotalDecryption(uint256 batchId) external onlyProvider whenNotPaused {
@@ -160,7 +552,7 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
         }
         if (!batchClosed[batchId] || batchId == 0) revert BatchClosedOrInvalid(); 
 
-        _requireInitialized();
+        _requireInitialized(encryptedTotalInvestment[batchId]);
 
         lastDecryptionRequestTime[msg.sender] = currentTime;
 
@@ -187,13 +579,279 @@ contract CrossDaoTreasuryFHE is SepoliaConfig {
             revert StateMismatch();
         }
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidSignature();
-        }
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256 totalInvestment = abi.decode(cleartexts, (uint32));
+        uint64 totalInvestment = abi.decode(cleartexts, (uint64));
 
         decryptionContexts[requestId].processed = true;
+        batchTotalRevealed[batchId] = true;
+        revealedTotalInvestment[batchId] = totalInvestment;
         emit DecryptionCompleted(requestId, batchId, totalInvestment);
     }
+
+    // Runs as a council action, so the input must be encrypted with this contract as the user.
+    function setFundingTarget(
+        uint256 batchId,
+        externalEuint64 encryptedTarget,
+        bytes calldata inputProof
+    ) external onlyCouncil whenNotPaused {
+        if (batchId == 0 || batchId > currentBatchId || batchClosed[batchId]) revert BatchClosedOrInvalid();
+
+        euint64 target = FHE.fromExternal(encryptedTarget, inputProof);
+        FHE.allowThis(target);
+        encryptedFundingTarget[batchId] = target;
+
+        emit FundingTargetSet(batchId);
+    }
+
+    function requestFundingTargetCheck(uint256 batchId) external onlyProvider whenNotPaused {
+        uint256 currentTime = block.timestamp;
+        if (currentTime - lastDecryptionRequestTime[msg.sender] < cooldownSeconds) {
+            revert CooldownActive();
+        }
+        if (!batchClosed[batchId] || batchId == 0) revert BatchClosedOrInvalid();
+        if (fundingTargetChecked[batchId]) revert TargetAlreadyChecked();
+        // Recomputing the comparison would replace the ciphertext the pending callback is bound to.
+        if (targetCheckPending[batchId]) {
+            emit FundingTargetCheckRequested(targetCheckRequestId[batchId], batchId);
+            return;
+        }
+
+        _requireInitialized(encryptedFundingTarget[batchId]);
+        _requireInitialized(encryptedTotalInvestment[batchId]);
+
+        lastDecryptionRequestTime[msg.sender] = currentTime;
+
+        ebool reached = FHE.ge(encryptedTotalInvestment[batchId], encryptedFundingTarget[batchId]);
+        FHE.allowThis(reached);
+        encryptedTargetReached[batchId] = reached;
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = reached.toBytes32();
+
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.fundingTargetCallback.selector);
+
+        targetCheckContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        targetCheckPending[batchId] = true;
+        targetCheckRequestId[batchId] = requestId;
+
+        emit FundingTargetCheckRequested(requestId, batchId);
+    }
+
+    function fundingTargetCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (targetCheckContexts[requestId].processed) revert ReplayAttempt();
+
+        uint256 batchId = targetCheckContexts[requestId].batchId;
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = encryptedTargetReached[batchId].toBytes32();
+
+        if (_hashCiphertexts(cts) != targetCheckContexts[requestId].stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool reached = abi.decode(cleartexts, (bool));
+
+        targetCheckContexts[requestId].processed = true;
+        targetCheckPending[batchId] = false;
+        fundingTargetChecked[batchId] = true;
+        fundingTargetReached[batchId] = reached;
+        emit FundingTargetChecked(requestId, batchId, reached);
+    }
+
+    // Sends a closed batch's encrypted total to the investment it was raised for. Timelocked, so providers
+    // see the recipient before the principal moves; returns come back through `depositReturns`.
+    function disburseBatch(uint256 batchId, address recipient) external onlyTimelock whenNotPaused {
+        if (recipient == address(0) || recipient == address(this)) revert InvalidParameter();
+        if (batchId == 0 || batchId > currentBatchId || !batchClosed[batchId]) revert BatchClosedOrInvalid();
+        if (batchDisbursed[batchId]) revert AlreadyDisbursed();
+        euint64 total = encryptedTotalInvestment[batchId];
+        _requireInitialized(total);
+
+        batchDisbursed[batchId] = true;
+        FHE.allowTransient(total, address(token));
+        euint64 sent = token.confidentialTransferHandle(recipient, total);
+
+        emit BatchDisbursed(batchId, recipient, uint256(sent.toBytes32()));
+    }
+
+    // Pulls an investment's returns for a batch into the pool. Anyone may pay in; the council
+    // settles the batch once everything has arrived.
+    function depositReturns(
+        uint256 batchId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external whenNotPaused {
+        if (!batchTotalRevealed[batchId]) revert TotalNotRevealed();
+        if (batchSettled[batchId]) revert AlreadySettled();
+        if (revealedTotalInvestment[batchId] == 0) revert InvalidParameter();
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 returned = encryptedReturnedAmount[batchId];
+        bool firstDeposit = !FHE.isInitialized(returned);
+        if (!firstDeposit) {
+            ebool overflow = FHE.lt(returned.add(amount), returned);
+            amount = FHE.select(overflow, FHE.asEuint64(0), amount);
+        }
+
+        FHE.allowTransient(amount, address(token));
+        amount = token.confidentialTransferFrom(msg.sender, address(this), amount);
+        returned = firstDeposit ? amount : returned.add(amount);
+        encryptedReturnedAmount[batchId] = returned;
+        FHE.allowThis(returned);
+        FHE.allow(amount, msg.sender);
+
+        emit ReturnsDeposited(batchId, msg.sender, uint256(amount.toBytes32()));
+    }
+
+    // Freezes the deposited returns so contributors can claim their share.
+    function settleBatch(uint256 batchId) external onlyCouncil whenNotPaused {
+        if (batchSettled[batchId]) revert AlreadySettled();
+        euint64 returned = encryptedReturnedAmount[batchId];
+        _requireInitialized(returned);
+
+        batchSettled[batchId] = true;
+        emit BatchSettled(batchId, uint256(returned.toBytes32()));
+    }
+
+    // Open to former providers too: a contribution stays claimable after the provider is removed.
+    function claimPayout(uint256 batchId) external whenNotPaused {
+        if (!batchSettled[batchId]) revert NotSettled();
+        if (hasClaimed[batchId][msg.sender]) revert AlreadyClaimed();
+
+        euint64 contribution = encryptedContributions[batchId][msg.sender];
+        _requireInitialized(contribution);
+
+        // payout = contribution * returned / total. Dividing by the oracle-revealed total rather than the
+        // encrypted one is deliberate: FHE only divides by cleartexts. It reveals nothing new, because
+        // returns can only be paid in once the total is public, and contributions and payouts stay
+        // encrypted. The 128-bit product cannot overflow and the result fits in 64 bits because
+        // contribution <= total. Rounding dust stays in the pool.
+        euint128 product = FHE.mul(FHE.asEuint128(contribution), FHE.asEuint128(encryptedReturnedAmount[batchId]));
+        euint64 payout = FHE.asEuint64(FHE.div(product, uint128(revealedTotalInvestment[batchId])));
+
+        hasClaimed[batchId][msg.sender] = true;
+        encryptedPayouts[batchId][msg.sender] = payout;
+        FHE.allowThis(payout);
+        FHE.allow(payout, msg.sender);
+
+        FHE.allowTransient(payout, address(token));
+        token.confidentialTransferHandle(msg.sender, payout);
+
+        emit PayoutClaimed(msg.sender, batchId, uint256(payout.toBytes32()));
+    }
+
+    function _getProposal(uint256 proposalId) internal view returns (Proposal storage proposal) {
+        proposal = proposals[proposalId];
+        if (proposal.deadline == 0) revert UnknownProposal();
+    }
+
+    function createProposal(
+        uint256 batchId,
+        string calldata description,
+        uint256 votingPeriod
+    ) external onlyProvider whenNotPaused returns (uint256 proposalId) {
+        if (batchId == 0 || batchId > currentBatchId) revert BatchClosedOrInvalid();
+        // Contributions can still be withdrawn while a batch is open, so weights are only final once it
+        // closes; starting the vote later keeps the whole voting window usable.
+        if (!batchClosed[batchId]) revert BatchStillOpen();
+        if (votingPeriod == 0 || bytes(description).length == 0) revert InvalidParameter();
+
+        proposalId = ++proposalCount;
+        uint256 deadline = block.timestamp + votingPeriod;
+        proposals[proposalId] = Proposal({
+            batchId: batchId,
+            proposer: msg.sender,
+            deadline: deadline,
+            description: description,
+            tallyRevealed: false,
+            yesVotes: 0,
+            noVotes: 0
+        });
+
+        encryptedYesVotes[proposalId] = FHE.asEuint64(0);
+        encryptedNoVotes[proposalId] = FHE.asEuint64(0);
+        FHE.allowThis(encryptedYesVotes[proposalId]);
+        FHE.allowThis(encryptedNoVotes[proposalId]);
+
+        emit ProposalCreated(proposalId, batchId, msg.sender, deadline, description);
+    }
+
+    function castVote(
+        uint256 proposalId,
+        externalEbool encryptedSupport,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (block.timestamp >= proposal.deadline) revert VotingClosed();
+        if (hasVoted[proposalId][msg.sender]) revert AlreadyVoted();
+
+        // Voting power is the voter's encrypted contribution to the proposal's batch.
+        euint64 weight = encryptedContributions[proposal.batchId][msg.sender];
+        if (!FHE.isInitialized(weight)) revert NoVotingPower();
+
+        ebool support = FHE.fromExternal(encryptedSupport, inputProof);
+        hasVoted[proposalId][msg.sender] = true;
+        encryptedVotingWeight[proposalId][msg.sender] = weight;
+        FHE.allowThis(weight);
+        FHE.allow(weight, msg.sender);
+
+        euint64 zero = FHE.asEuint64(0);
+        encryptedYesVotes[proposalId] = encryptedYesVotes[proposalId].add(FHE.select(support, weight, zero));
+        encryptedNoVotes[proposalId] = encryptedNoVotes[proposalId].add(FHE.select(support, zero, weight));
+        FHE.allowThis(encryptedYesVotes[proposalId]);
+        FHE.allowThis(encryptedNoVotes[proposalId]);
+        numVotes[proposalId]++;
+
+        emit VoteCast(proposalId, msg.sender);
+    }
+
+    function _tallyCiphertexts(uint256 proposalId) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2);
+        cts[0] = encryptedYesVotes[proposalId].toBytes32();
+        cts[1] = encryptedNoVotes[proposalId].toBytes32();
+    }
+
+    function requestTallyDecryption(uint256 proposalId) external onlyProvider whenNotPaused {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (block.timestamp < proposal.deadline) revert VotingOpen();
+        if (proposal.tallyRevealed) revert TallyAlreadyRevealed();
+
+        uint256 currentTime = block.timestamp;
+        if (currentTime - lastDecryptionRequestTime[msg.sender] < cooldownSeconds) {
+            revert CooldownActive();
+        }
+        lastDecryptionRequestTime[msg.sender] = currentTime;
+
+        bytes32[] memory cts = _tallyCiphertexts(proposalId);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.tallyCallback.selector);
+
+        tallyContexts[requestId] = TallyContext({ proposalId: proposalId, stateHash: stateHash, processed: false });
+
+        emit TallyRequested(requestId, proposalId);
+    }
+
+    function tallyCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (tallyContexts[requestId].processed) revert ReplayAttempt();
+
+        uint256 proposalId = tallyContexts[requestId].proposalId;
+        bytes32 currentHash = _hashCiphertexts(_tallyCiphertexts(proposalId));
+        if (currentHash != tallyContexts[requestId].stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint64 yesVotes, uint64 noVotes) = abi.decode(cleartexts, (uint64, uint64));
+
+        tallyContexts[requestId].processed = true;
+        Proposal storage proposal = proposals[proposalId];
+        proposal.tallyRevealed = true;
+        proposal.yesVotes = yesVotes;
+        proposal.noVotes = noVotes;
+        emit TallyRevealed(requestId, proposalId, yesVotes, noVotes);
+    }
 }
\ No newline at end of file
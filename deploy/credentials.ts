@@ -0,0 +1,49 @@
+// deploy/credentials.ts
+import fs from "fs";
+import readline from "readline";
+import { Wallet } from "ethers";
+import type { Provider, Signer } from "ethers";
+
+/** Reads a line without echoing it, for keystore passwords. */
+export async function askHidden(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  process.stdout.write(prompt);
+  output._writeToOutput = () => {};
+  return new Promise<string>((resolve) =>
+    rl.question("", (ans) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(ans);
+    })
+  );
+}
+
+/**
+ * Unlocks the deployer once per run, from the first source that is set:
+ * - `DEPLOYER_KEYSTORE`: path to an encrypted JSON keystore, unlocked with
+ *   `DEPLOYER_KEYSTORE_PASSWORD` or a hidden prompt;
+ * - `DEPLOYER_PRIVATE_KEY`: a private key provided by the environment;
+ * - the first account configured for the Hardhat network.
+ * Key material is only held in memory; nothing is written back to disk.
+ */
+export async function loadDeployer(provider: Provider, configuredSigners: Signer[]): Promise<Signer> {
+  const keystorePath = process.env.DEPLOYER_KEYSTORE;
+  if (keystorePath) {
+    if (!fs.existsSync(keystorePath)) throw new Error(`Keystore not found: ${keystorePath}`);
+    const keystore = fs.readFileSync(keystorePath, "utf-8");
+    const password = process.env.DEPLOYER_KEYSTORE_PASSWORD ?? (await askHidden(`Password for ${keystorePath}: `));
+    const wallet = await Wallet.fromEncryptedJson(keystore, password);
+    return wallet.connect(provider);
+  }
+
+  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+  if (privateKey) return new Wallet(privateKey.trim(), provider);
+
+  if (configuredSigners.length > 0) return configuredSigners[0];
+
+  throw new Error(
+    "No deployer credentials: set DEPLOYER_KEYSTORE (encrypted JSON keystore) or DEPLOYER_PRIVATE_KEY, " +
+      "or configure accounts for the network",
+  );
+}
@@ -0,0 +1,130 @@
+// deploy/deployments.ts
+import fs from "fs";
+import path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+import type { ContractFactory, Provider, Signer } from "ethers";
+
+export const DEPLOYMENTS_PATH = path.join(__dirname, "..", "deployments", "deployments.json");
+
+export interface DeploymentRecord {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  deployer: string;
+  /** keccak256 of the contract's JSON ABI. */
+  abiHash: string;
+  /** keccak256 of the creation bytecode, so recompiled code is redeployed even when the ABI is unchanged. */
+  bytecodeHash: string;
+  /** Constructor arguments, with bigints as decimal strings. */
+  args: unknown[];
+  deployedAt: string;
+}
+
+export interface NetworkDeployments {
+  network: string;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+/** Deployment records keyed by chain id. */
+export type DeploymentsFile = Record<string, NetworkDeployments>;
+
+export function readDeployments(file = DEPLOYMENTS_PATH): DeploymentsFile {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as DeploymentsFile;
+}
+
+export function writeDeployments(deployments: DeploymentsFile, file = DEPLOYMENTS_PATH): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(deployments, null, 2) + "\n");
+}
+
+export function abiHash(factory: ContractFactory): string {
+  return keccak256(toUtf8Bytes(factory.interface.formatJson()));
+}
+
+export function bytecodeHash(factory: ContractFactory): string {
+  return keccak256(factory.bytecode);
+}
+
+export function serializeArgs(args: unknown[]): unknown[] {
+  return JSON.parse(JSON.stringify(args, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/** Whether `record` still describes live code built from `factory` with `args`. */
+export async function isUnchanged(
+  record: DeploymentRecord | undefined,
+  factory: ContractFactory,
+  args: unknown[],
+  provider: Provider,
+): Promise<boolean> {
+  if (!record) return false;
+  if (record.abiHash !== abiHash(factory) || record.bytecodeHash !== bytecodeHash(factory)) return false;
+  if (JSON.stringify(record.args) !== JSON.stringify(serializeArgs(args))) return false;
+  return (await provider.getCode(record.address)) !== "0x";
+}
+
+/**
+ * First block at which `address` has code, found by bisecting `getCode` over historical
+ * blocks (needs an archive node). Resolves with `undefined` when there is no code now.
+ */
+export async function findDeployBlock(provider: Provider, address: string): Promise<number | undefined> {
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === "0x") return undefined;
+  let low = 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === "0x") low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+export interface DeployContext {
+  chainId: string;
+  network: string;
+  deployer: Signer;
+  deployments: DeploymentsFile;
+}
+
+/**
+ * Deploys `name` unless the chain's record matches the compiled contract and `args`,
+ * and records the result in `context.deployments`. Resolves with the contract's record.
+ */
+export async function deployContract(
+  context: DeployContext,
+  name: string,
+  factory: ContractFactory,
+  args: unknown[],
+): Promise<{ record: DeploymentRecord; reused: boolean; gasUsed?: bigint }> {
+  const provider = context.deployer.provider;
+  if (!provider) throw new Error("Deployer signer has no provider");
+
+  const chain = (context.deployments[context.chainId] ??= { network: context.network, contracts: {} });
+  chain.network = context.network;
+  const existing = chain.contracts[name];
+  if (await isUnchanged(existing, factory, args, provider)) {
+    console.log(`${name} unchanged at ${existing.address}, skipping`);
+    return { record: existing, reused: true };
+  }
+
+  console.log(`Deploying ${name}...`);
+  const contract = await factory.connect(context.deployer).deploy(...args);
+  await contract.waitForDeployment();
+  const tx = contract.deploymentTransaction();
+  const receipt = await tx?.wait();
+  if (!tx || !receipt) throw new Error(`${name} deployment transaction was not mined`);
+
+  const record: DeploymentRecord = {
+    address: await contract.getAddress(),
+    txHash: tx.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: await context.deployer.getAddress(),
+    abiHash: abiHash(factory),
+    bytecodeHash: bytecodeHash(factory),
+    args: serializeArgs(args),
+    deployedAt: new Date().toISOString(),
+  };
+  chain.contracts[name] = record;
+  console.log(`${name} deployed at ${record.address} (block ${record.blockNumber})`);
+  return { record, reused: false, gasUsed: receipt.gasUsed };
+}
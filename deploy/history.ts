@@ -0,0 +1,87 @@
+// deploy/history.ts
+import fs from "fs";
+import path from "path";
+import { execSync } from "child_process";
+import type { ExecSyncOptions } from "child_process";
+
+export const HISTORY_PATH = path.join(__dirname, "..", "deployments", "history.jsonl");
+
+export type HistoryStatus = "deployed" | "failed";
+
+/** One line of `deployments/history.jsonl`. */
+export interface HistoryEntry {
+  timestamp: string;
+  chainId: string;
+  network: string;
+  contract: string;
+  status: HistoryStatus;
+  deployer: string;
+  address?: string;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  /** Commit the contracts were built from, with `-dirty` when the tree had local changes. */
+  commit?: string;
+  error?: string;
+}
+
+export interface HistoryFilter {
+  chainId?: string;
+  network?: string;
+  contract?: string;
+  status?: HistoryStatus;
+}
+
+// Written by the deploy itself, so they never make the tree count as dirty.
+const DEPLOY_OUTPUTS = ["deployments", "frontend/web/src/config.json"];
+
+/** Call before the deploy writes anything; local changes to the sources mark the commit `-dirty`. */
+export function gitCommit(): string | undefined {
+  const options: ExecSyncOptions = { cwd: path.join(__dirname, ".."), stdio: ["ignore", "pipe", "ignore"] };
+  const excludes = DEPLOY_OUTPUTS.map((output) => `":(exclude)${output}"`).join(" ");
+  try {
+    const commit = execSync("git rev-parse HEAD", options).toString().trim();
+    const dirty = execSync(`git status --porcelain -- . ${excludes}`, options).toString().trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Full detail of a failure, including the stack and any revert data ethers attached. */
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const details = error as Error & { shortMessage?: string; data?: string; reason?: string };
+  return [
+    error.stack ?? `${error.name}: ${error.message}`,
+    details.shortMessage && `shortMessage: ${details.shortMessage}`,
+    details.reason && `reason: ${details.reason}`,
+    details.data && `data: ${details.data}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function appendHistory(entry: HistoryEntry, file = HISTORY_PATH): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(entry) + "\n");
+}
+
+export function readHistory(file = HISTORY_PATH): HistoryEntry[] {
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as HistoryEntry);
+}
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  return entries.filter(
+    (entry) =>
+      (filter.chainId === undefined || entry.chainId === filter.chainId) &&
+      (filter.network === undefined || entry.network === filter.network) &&
+      (filter.contract === undefined || entry.contract.toLowerCase() === filter.contract.toLowerCase()) &&
+      (filter.status === undefined || entry.status === filter.status),
+  );
+}
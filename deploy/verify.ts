@@ -0,0 +1,96 @@
+// deploy/verify.ts
+import type { Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { parseAmount } from "../src/amounts";
+import { TreasuryClient } from "../src/TreasuryClient";
+
+export interface ExpectedTreasury {
+  token: string;
+  council: string[];
+  threshold: number;
+}
+
+const INITIAL_COOLDOWN_SECONDS = 60n;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Checks a freshly deployed treasury against its constructor arguments and initial state; resolves with the failures. */
+export async function verifyTreasury(client: TreasuryClient, expected: ExpectedTreasury): Promise<string[]> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) return ["Treasury client has no provider"];
+  if ((await provider.getCode(client.address)) === "0x") return [`No bytecode at ${client.address}`];
+
+  const failures: string[] = [];
+  const check = (ok: boolean, failure: string) => {
+    if (!ok) failures.push(failure);
+  };
+
+  const [tokenAddress, settings] = await Promise.all([client.tokenAddress(), client.getSettings()]);
+  check(sameAddress(tokenAddress, expected.token), `token() is ${tokenAddress}, expected ${expected.token}`);
+
+  const members = settings.councilMembers;
+  check(
+    members.length === expected.council.length && expected.council.every((m) => members.some((c) => sameAddress(c, m))),
+    `Council is [${members.join(", ")}], expected [${expected.council.join(", ")}]`,
+  );
+  check(
+    settings.councilThreshold === BigInt(expected.threshold),
+    `Council threshold is ${settings.councilThreshold}, expected ${expected.threshold}`,
+  );
+  for (const member of members) {
+    check(await client.isProvider(member), `Council member ${member} is not a provider`);
+  }
+
+  check(settings.currentBatchId === 1n, `currentBatchId is ${settings.currentBatchId}, expected 1`);
+  check(!settings.currentBatchClosed, "Batch 1 is already closed");
+  check(
+    settings.cooldownSeconds === INITIAL_COOLDOWN_SECONDS,
+    `cooldownSeconds is ${settings.cooldownSeconds}, expected ${INITIAL_COOLDOWN_SECONDS}`,
+  );
+  check(!settings.paused, "Treasury is paused");
+  return failures;
+}
+
+/** Why `verifyRoundTrip` cannot run against this deployment, or `null` if it can. */
+export async function roundTripSkipReason(client: TreasuryClient, deployer: Signer): Promise<string | null> {
+  const treasury = client.connect(deployer);
+  if ((await treasury.councilThreshold()) !== 1n) return "it needs a council threshold of 1";
+  const owner = await (await treasury.token()).owner();
+  if (!sameAddress(owner, await deployer.getAddress())) return "it needs the deployer to own the token";
+  return null;
+}
+
+/**
+ * Submits an encrypted contribution, closes batch 1 through the council and reveals its
+ * total through the mock decryption oracle. Check `roundTripSkipReason` first; it leaves
+ * batch 1 closed, so only use it on throwaway mock deployments. `fhevm` must already be
+ * initialized.
+ */
+export async function verifyRoundTrip(
+  client: TreasuryClient,
+  deployer: Signer,
+  fhevm: HardhatRuntimeEnvironment["fhevm"],
+): Promise<string[]> {
+  const account = await deployer.getAddress();
+  const treasury = client.connect(deployer);
+  const token = await treasury.token();
+
+  const amount = parseAmount("1");
+  const block = await deployer.provider?.getBlock("latest");
+  await (await token.mint(account, amount)).wait();
+  await treasury.approveTreasury((block?.timestamp ?? Math.floor(Date.now() / 1000)) + 3600);
+
+  const input = await fhevm.createEncryptedInput(treasury.address, account).add64(amount).encrypt();
+  await treasury.submitEncryptedInvestment(input.handles[0], input.inputProof);
+  const { event } = await treasury.proposeCloseCurrentBatch();
+  await treasury.executeCouncilAction(event.args.actionId);
+
+  await treasury.requestBatchTotalDecryption(1);
+  await fhevm.awaitDecryptionOracle();
+  const [revealed, total] = await Promise.all([
+    treasury.contract.batchTotalRevealed(1),
+    treasury.contract.revealedTotalInvestment(1),
+  ]);
+  if (!revealed) return ["Batch 1 total was not revealed by the decryption oracle"];
+  return total === amount ? [] : [`Batch 1 total decrypted to ${total}, expected ${amount}`];
+}
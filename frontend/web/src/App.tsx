@@ -3,9 +3,20 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config, getContractReadOnly, getContractWithSigner, getTreasuryReadOnly, getTreasuryWithSigner, normAddr, queryFilterPaged } from "./contract";
+import { encryptAmount, isCiphertextHandle, userDecryptHandle } from "./fhevm";
+import BatchDashboard from "./components/BatchDashboard";
+import AdminConsole from "./components/AdminConsole";
+import DecryptionTracker from "./components/DecryptionTracker";
+import ProposalsPage from "./components/ProposalsPage";
+import TokenWallet, { OPERATOR_APPROVAL_SECONDS } from "./components/TokenWallet";
+import TimelockQueue from "./components/TimelockQueue";
+import { explainTreasuryErrorName, formatTreasuryError } from "../../../src/treasuryErrors";
+import { AMOUNT_DECIMALS, formatAmount, parseAmount } from "../../../src/amounts";
+import { useProviderStatus } from "./hooks/useProviderStatus";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { NavLink, Route, Routes } from 'react-router-dom';
 
 interface TreasuryRecord {
   id: string;
@@ -14,60 +25,53 @@ interface TreasuryRecord {
   daoAddress: string;
   investmentType: string;
   status: "pending" | "active" | "withdrawn";
+  batchId?: number;
+  txHash?: string;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<TreasuryRecord[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [depositing, setDepositing] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newDepositData, setNewDepositData] = useState({ investmentType: "", amount: 0 });
+  const [newDepositData, setNewDepositData] = useState({ investmentType: "", amount: "" });
+  const [encryptedHandle, setEncryptedHandle] = useState<string | null>(null);
   const [showIntro, setShowIntro] = useState(true);
   const [selectedRecord, setSelectedRecord] = useState<TreasuryRecord | null>(null);
-  const [decryptedAmount, setDecryptedAmount] = useState<number | null>(null);
+  const [decryptedAmount, setDecryptedAmount] = useState<bigint | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [batchRefreshKey, setBatchRefreshKey] = useState(0);
+  const [councilMembers, setCouncilMembers] = useState<string[]>([]);
+  const providerStatus = useProviderStatus(address, batchRefreshKey);
+  const submitBlockedReason = providerStatus.submitBlocker === "CooldownActive"
+    ? `Cooldown ends in ${providerStatus.submitCooldown} s`
+    : providerStatus.submitBlocker ? explainTreasuryErrorName(providerStatus.submitBlocker).message : null;
   const activeCount = records.filter(r => r.status === "active").length;
   const pendingCount = records.filter(r => r.status === "pending").length;
   const withdrawnCount = records.filter(r => r.status === "withdrawn").length;
 
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    loadCouncil();
   }, []);
 
+  const loadCouncil = async () => {
+    try {
+      const treasury = await getTreasuryReadOnly();
+      setCouncilMembers(treasury ? await treasury.getCouncilMembers() : []);
+    } catch (e) { console.error("Error loading treasury council:", e); }
+  };
+
+  const showTransactionStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), status === "success" ? 2000 : 3000);
+    }
+  };
+
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
@@ -81,35 +85,37 @@ const App: React.FC = () => {
         return;
       }
 
-      // Load record keys
-      const keysBytes = await contract.getData("treasury_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing record keys:", e); }
+      // Rebuild the record index from DataStored events: every write is its own
+      // log entry, so concurrent deposits can never drop each other's records.
+      const events = await queryFilterPaged(contract, contract.filters.DataStored(), config.adapterDeployBlock);
+      const latest = new Map<string, { sender: string; value: string }>();
+      for (const event of events) {
+        if (!("args" in event)) continue;
+        const { sender, key, value } = event.args;
+        if (!key.startsWith("treasury_") || key === "treasury_keys") continue;
+        const id = key.substring("treasury_".length);
+        const existing = latest.get(id);
+        // Only the DAO that created a record may update it
+        if (existing && normAddr(existing.sender) !== normAddr(sender)) continue;
+        latest.set(id, { sender, value });
       }
 
-      // Load each record
+      // Decode each record
       const list: TreasuryRecord[] = [];
-      for (const key of keys) {
+      for (const [id, { value }] of latest) {
         try {
-          const recordBytes = await contract.getData(`treasury_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                encryptedAmount: recordData.amount, 
-                timestamp: recordData.timestamp, 
-                daoAddress: recordData.daoAddress, 
-                investmentType: recordData.investmentType, 
-                status: recordData.status || "pending" 
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
+          const recordData = JSON.parse(ethers.toUtf8String(value));
+          list.push({ 
+            id, 
+            encryptedAmount: recordData.amount, 
+            timestamp: recordData.timestamp, 
+            daoAddress: recordData.daoAddress, 
+            investmentType: recordData.investmentType, 
+            status: recordData.status || "pending",
+            batchId: recordData.batchId,
+            txHash: recordData.txHash
+          });
+        } catch (e) { console.error(`Error parsing record data for ${id}:`, e); }
       }
       list.sort((a, b) => b.timestamp - a.timestamp);
       setRecords(list);
@@ -121,54 +127,124 @@ const App: React.FC = () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setDepositing(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting treasury amount with Zama FHE..." });
+    const treasury = await getTreasuryWithSigner().catch(() => null);
     try {
-      const encryptedAmount = FHEEncryptNumber(newDepositData.amount);
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      const blocker = await treasury.preflightSubmission(address!);
+      if (blocker) {
+        const explanation = explainTreasuryErrorName(blocker);
+        throw new Error(explanation.suggestion ? `${explanation.message}. ${explanation.suggestion}` : explanation.message);
+      }
+      if (!(await treasury.isTreasuryOperator(address!))) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Approving the treasury to pull your confidential tokens..." });
+        await treasury.approveTreasury(Math.floor(Date.now() / 1000) + OPERATOR_APPROVAL_SECONDS);
+        setTransactionStatus({ visible: true, status: "pending", message: "Encrypting treasury amount with Zama FHE..." });
+      }
+      const encrypted = await encryptAmount(treasury.address, address!, parseAmount(newDepositData.amount));
+      setEncryptedHandle(encrypted.handle);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted investment to the treasury..." });
+      const { receipt, event } = await treasury.submitEncryptedInvestment(encrypted.handle, encrypted.inputProof);
+
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
       const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
       const recordData = { 
-        amount: encryptedAmount, 
+        // The input handle is capped and moved through the token first; only the resulting handle
+        // holds the counted amount and is decryptable by the sender.
+        amount: ethers.toBeHex(event.args.encryptedAmount, 32), 
         timestamp: Math.floor(Date.now() / 1000), 
         daoAddress: address, 
         investmentType: newDepositData.investmentType, 
-        status: "pending" 
+        status: "pending",
+        batchId: Number(event.args.batchId),
+        txHash: receipt.hash
       };
       
-      await contract.setData(`treasury_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      
-      // Update keys list
-      const keysBytes = await contract.getData("treasury_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(recordId);
-      await contract.setData("treasury_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const storeTx = await contract.setData(`treasury_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
+      await storeTx.wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Encrypted treasury deposit submitted!" });
       await loadRecords();
+      setBatchRefreshKey(k => k + 1);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowDepositModal(false);
-        setNewDepositData({ investmentType: "", amount: 0 });
+        setNewDepositData({ investmentType: "", amount: "" });
+        setEncryptedHandle(null);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Deposit failed: " + (e.message || "Unknown error");
+      const errorMessage = await formatTreasuryError(e, "Deposit failed", treasury ? { client: treasury, account: address!, action: "submit" } : undefined);
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setDepositing(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const requestBatchDecryption = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    showTransactionStatus("pending", `Requesting decryption of batch #${batchId.toString()} total...`);
+    const treasury = await getTreasuryWithSigner().catch(() => null);
+    try {
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      const { event } = await treasury.requestBatchTotalDecryption(batchId);
+      showTransactionStatus("success", `Decryption request #${event.args.requestId.toString()} submitted to the oracle`);
+      setBatchRefreshKey(k => k + 1);
+    } catch (e) {
+      showTransactionStatus("error", await formatTreasuryError(e, "Decryption request failed", treasury ? { client: treasury, account: address!, action: "decrypt" } : undefined));
+    }
+  };
+
+  const claimPayout = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    showTransactionStatus("pending", `Claiming your share of batch #${batchId.toString()} returns...`);
+    const treasury = await getTreasuryWithSigner().catch(() => null);
+    try {
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      await treasury.claimPayout(batchId);
+      showTransactionStatus("success", "Encrypted payout transferred to your confidential balance");
+      setBatchRefreshKey(k => k + 1);
+    } catch (e) {
+      showTransactionStatus("error", await formatTreasuryError(e, "Claim failed", treasury ? { client: treasury, account: address! } : undefined));
+    }
+  };
+
+  const checkFundingTarget = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    showTransactionStatus("pending", `Checking batch #${batchId.toString()} against its funding target...`);
+    const treasury = await getTreasuryWithSigner().catch(() => null);
+    try {
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      const { event } = await treasury.requestFundingTargetCheck(batchId);
+      showTransactionStatus("success", `Target check #${event.args.requestId.toString()} submitted to the oracle`);
+      setBatchRefreshKey(k => k + 1);
+    } catch (e) {
+      showTransactionStatus("error", await formatTreasuryError(e, "Target check failed", treasury ? { client: treasury, account: address!, action: "decrypt" } : undefined));
+    }
+  };
+
+  const closeElapsedBatch = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    showTransactionStatus("pending", `Closing batch #${batchId.toString()}...`);
+    const treasury = await getTreasuryWithSigner().catch(() => null);
+    try {
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      await treasury.closeElapsedBatch();
+      showTransactionStatus("success", `Batch #${batchId.toString()} closed; its total can now be decrypted`);
+      setBatchRefreshKey(k => k + 1);
+    } catch (e) {
+      showTransactionStatus("error", await formatTreasuryError(e, "Closing the batch failed", treasury ? { client: treasury, account: address! } : undefined));
+    }
+  };
+
+  const decryptWithSignature = async (encryptedData: string): Promise<bigint | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
+    if (!isCiphertextHandle(encryptedData)) { alert("This record predates on-chain encryption and has no ciphertext handle to decrypt"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const provider = new ethers.BrowserProvider(window.ethereum!);
+      const signer = await provider.getSigner();
+      return await userDecryptHandle(encryptedData, config.treasuryAddress, signer);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
@@ -193,32 +269,47 @@ const App: React.FC = () => {
       await loadRecords();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Activation failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: await formatTreasuryError(e, "Activation failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const withdrawInvestment = async (recordId: string) => {
+  // The treasury returns a DAO's whole contribution to the open batch, so every record in that batch is withdrawn together.
+  const withdrawInvestment = async (record: TreasuryRecord) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted treasury with FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Returning your encrypted contribution from the pool..." });
+    const treasury = await getTreasuryWithSigner().catch(() => null);
     try {
+      if (!treasury) throw new Error("Failed to get treasury with signer");
+      await treasury.withdrawContribution();
+
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
-      const recordBytes = await contract.getData(`treasury_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const updatedRecord = { ...recordData, status: "withdrawn" };
-      await contract.setData(`treasury_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      setTransactionStatus({ visible: true, status: "success", message: "FHE withdrawal completed!" });
+      const batchRecords = records.filter(r => isOwner(r.daoAddress) && r.batchId === record.batchId && r.status !== "withdrawn");
+      for (const { id } of batchRecords) {
+        const recordBytes = await contract.getData(`treasury_${id}`);
+        if (recordBytes.length === 0) continue;
+        const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
+        const storeTx = await contract.setData(`treasury_${id}`, ethers.toUtf8Bytes(JSON.stringify({ ...recordData, status: "withdrawn" })));
+        await storeTx.wait();
+      }
+      setTransactionStatus({ visible: true, status: "success", message: "Contribution returned to your confidential balance!" });
       await loadRecords();
+      setBatchRefreshKey(k => k + 1);
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Withdrawal failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: await formatTreasuryError(e, "Withdrawal failed", treasury ? { client: treasury, account: address! } : undefined) });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
   const isOwner = (recordAddress: string) => address?.toLowerCase() === recordAddress.toLowerCase();
+  const isCouncilMember = isConnected && councilMembers.some(isOwner);
+  const canWithdraw = (record: TreasuryRecord) => {
+    const status = providerStatus.status;
+    return isOwner(record.daoAddress) && record.status !== "withdrawn" && !!status && !status.currentBatchClosed
+      && record.batchId !== undefined && BigInt(record.batchId) === status.currentBatchId;
+  };
 
   const renderBarChart = () => {
     const total = records.length || 1;
@@ -252,9 +343,13 @@ const App: React.FC = () => {
           <div className="logo-icon"><div className="shield-icon"></div></div>
           <h1>Cross-DAO<span>Treasury</span></h1>
         </div>
+        <nav className="app-nav">
+          <NavLink to="/" end className="nav-link">Dashboard</NavLink>
+          <NavLink to="/proposals" className="nav-link">Proposals</NavLink>
+        </nav>
         <div className="header-actions">
-          <button onClick={() => setShowDepositModal(true)} className="deposit-btn tech-button">
-            <div className="add-icon"></div>Deposit Funds
+          <button onClick={() => setShowDepositModal(true)} className="deposit-btn tech-button" disabled={!!submitBlockedReason} title={submitBlockedReason ?? undefined}>
+            <div className="add-icon"></div>{providerStatus.submitBlocker === "CooldownActive" ? `Deposit in ${providerStatus.submitCooldown}s` : "Deposit Funds"}
           </button>
           <button className="tech-button" onClick={() => setShowIntro(!showIntro)}>
             {showIntro ? "Hide Intro" : "Show Intro"}
@@ -263,115 +358,131 @@ const App: React.FC = () => {
         </div>
       </header>
       <div className="main-content">
-        {showIntro && (
-          <div className="intro-section tech-panel">
-            <h2>FHE-Powered Cross-DAO Treasury</h2>
-            <div className="intro-grid">
-              <div className="intro-card">
-                <h3>Secure Treasury Pooling</h3>
-                <p>Multiple DAOs can pool treasury funds in an encrypted state using Zama FHE technology, enabling joint investments without exposing individual treasury details.</p>
+        <Routes>
+          <Route path="/proposals" element={
+            <ProposalsPage account={isConnected ? address : undefined} providerStatus={providerStatus} onTransactionStatus={showTransactionStatus} onChanged={() => setBatchRefreshKey(k => k + 1)} decryptHandle={decryptWithSignature} />
+          } />
+          <Route path="*" element={<>
+            {showIntro && (
+              <div className="intro-section tech-panel">
+                <h2>FHE-Powered Cross-DAO Treasury</h2>
+                <div className="intro-grid">
+                  <div className="intro-card">
+                    <h3>Secure Treasury Pooling</h3>
+                    <p>Multiple DAOs can pool treasury funds in an encrypted state using Zama FHE technology, enabling joint investments without exposing individual treasury details.</p>
+                  </div>
+                  <div className="intro-card">
+                    <h3>Privacy-Preserving</h3>
+                    <p>All treasury amounts remain encrypted during processing. Investment decisions are made through private voting without revealing exact amounts.</p>
+                  </div>
+                  <div className="intro-card">
+                    <h3>Risk Management</h3>
+                    <p>Distribute risk across multiple DAOs while maintaining capital efficiency. FHE enables secure computations on encrypted treasury data.</p>
+                  </div>
+                </div>
+                <div className="fhe-flow">
+                  <div className="flow-step"><div className="step-icon">🔓</div><div className="step-text">DAO Treasuries</div></div>
+                  <div className="flow-arrow">→</div>
+                  <div className="flow-step"><div className="step-icon">🔒</div><div className="step-text">FHE Encryption</div></div>
+                  <div className="flow-arrow">→</div>
+                  <div className="flow-step"><div className="step-icon">🔄</div><div className="step-text">Joint Pool</div></div>
+                  <div className="flow-arrow">→</div>
+                  <div className="flow-step"><div className="step-icon">📊</div><div className="step-text">Investments</div></div>
+                </div>
               </div>
-              <div className="intro-card">
-                <h3>Privacy-Preserving</h3>
-                <p>All treasury amounts remain encrypted during processing. Investment decisions are made through private voting without revealing exact amounts.</p>
+            )}
+            <div className="dashboard-grid">
+              <div className="dashboard-panel tech-panel">
+                <h3>Treasury Statistics</h3>
+                <div className="stats-grid">
+                  <div className="stat-item"><div className="stat-value">{records.length}</div><div className="stat-label">Total Deposits</div></div>
+                  <div className="stat-item"><div className="stat-value">{activeCount}</div><div className="stat-label">Active</div></div>
+                  <div className="stat-item"><div className="stat-value">{pendingCount}</div><div className="stat-label">Pending</div></div>
+                  <div className="stat-item"><div className="stat-value">{withdrawnCount}</div><div className="stat-label">Withdrawn</div></div>
+                </div>
               </div>
-              <div className="intro-card">
-                <h3>Risk Management</h3>
-                <p>Distribute risk across multiple DAOs while maintaining capital efficiency. FHE enables secure computations on encrypted treasury data.</p>
+              <div className="dashboard-panel tech-panel">
+                <h3>Status Distribution</h3>
+                {renderBarChart()}
               </div>
-            </div>
-            <div className="fhe-flow">
-              <div className="flow-step"><div className="step-icon">🔓</div><div className="step-text">DAO Treasuries</div></div>
-              <div className="flow-arrow">→</div>
-              <div className="flow-step"><div className="step-icon">🔒</div><div className="step-text">FHE Encryption</div></div>
-              <div className="flow-arrow">→</div>
-              <div className="flow-step"><div className="step-icon">🔄</div><div className="step-text">Joint Pool</div></div>
-              <div className="flow-arrow">→</div>
-              <div className="flow-step"><div className="step-icon">📊</div><div className="step-text">Investments</div></div>
-            </div>
-          </div>
-        )}
-        <div className="dashboard-grid">
-          <div className="dashboard-panel tech-panel">
-            <h3>Treasury Statistics</h3>
-            <div className="stats-grid">
-              <div className="stat-item"><div className="stat-value">{records.length}</div><div className="stat-label">Total Deposits</div></div>
-              <div className="stat-item"><div className="stat-value">{activeCount}</div><div className="stat-label">Active</div></div>
-              <div className="stat-item"><div className="stat-value">{pendingCount}</div><div className="stat-label">Pending</div></div>
-              <div className="stat-item"><div className="stat-value">{withdrawnCount}</div><div className="stat-label">Withdrawn</div></div>
-            </div>
-          </div>
-          <div className="dashboard-panel tech-panel">
-            <h3>Status Distribution</h3>
-            {renderBarChart()}
-          </div>
-          <div className="dashboard-panel tech-panel">
-            <h3>Recent Activity</h3>
-            <div className="activity-feed">
-              {records.slice(0, 3).map(record => (
-                <div className="activity-item" key={record.id}>
-                  <div className="activity-type">{record.investmentType}</div>
-                  <div className="activity-dao">{record.daoAddress.substring(0, 6)}...{record.daoAddress.substring(38)}</div>
-                  <div className="activity-status"><span className={`status-badge ${record.status}`}>{record.status}</span></div>
+              <div className="dashboard-panel tech-panel">
+                <h3>Recent Activity</h3>
+                <div className="activity-feed">
+                  {records.slice(0, 3).map(record => (
+                    <div className="activity-item" key={record.id}>
+                      <div className="activity-type">{record.investmentType}</div>
+                      <div className="activity-dao">{record.daoAddress.substring(0, 6)}...{record.daoAddress.substring(38)}</div>
+                      <div className="activity-status"><span className={`status-badge ${record.status}`}>{record.status}</span></div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </div>
-        </div>
-        <div className="records-section">
-          <div className="section-header">
-            <h2>DAO Treasury Deposits</h2>
-            <div className="header-actions">
-              <button onClick={loadRecords} className="refresh-btn tech-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-          </div>
-          <div className="records-list tech-panel">
-            <div className="table-header">
-              <div className="header-cell">ID</div>
-              <div className="header-cell">Investment Type</div>
-              <div className="header-cell">DAO</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Actions</div>
+              </div>
+              {isConnected && address && (
+                <TokenWallet account={address} refreshKey={batchRefreshKey} onTransactionStatus={showTransactionStatus} />
+              )}
             </div>
-            {records.length === 0 ? (
-              <div className="no-records">
-                <div className="no-records-icon"></div>
-                <p>No treasury deposits found</p>
-                <button className="tech-button primary" onClick={() => setShowDepositModal(true)}>Make First Deposit</button>
+            <BatchDashboard refreshKey={batchRefreshKey} account={isConnected ? address : undefined} providerStatus={providerStatus} onRequestDecryption={requestBatchDecryption} onClaimPayout={claimPayout} onCloseBatch={closeElapsedBatch} onCheckTarget={checkFundingTarget} decryptHandle={decryptWithSignature} />
+            <DecryptionTracker refreshKey={batchRefreshKey} />
+            <TimelockQueue account={isConnected ? address : undefined} chainNow={providerStatus.chainNow} refreshKey={batchRefreshKey} onTransactionStatus={showTransactionStatus} onChanged={() => { loadCouncil(); setBatchRefreshKey(k => k + 1); }} />
+            {isCouncilMember && (
+              <AdminConsole account={address!} onTransactionStatus={showTransactionStatus} onChanged={() => { loadCouncil(); setBatchRefreshKey(k => k + 1); }} />
+            )}
+            <div className="records-section">
+              <div className="section-header">
+                <h2>DAO Treasury Deposits</h2>
+                <div className="header-actions">
+                  <button onClick={loadRecords} className="refresh-btn tech-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
               </div>
-            ) : records.map(record => (
-              <div className="record-row" key={record.id} onClick={() => setSelectedRecord(record)}>
-                <div className="table-cell record-id">#{record.id.substring(0, 6)}</div>
-                <div className="table-cell">{record.investmentType}</div>
-                <div className="table-cell">{record.daoAddress.substring(0, 6)}...{record.daoAddress.substring(38)}</div>
-                <div className="table-cell">{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
-                <div className="table-cell"><span className={`status-badge ${record.status}`}>{record.status}</span></div>
-                <div className="table-cell actions">
-                  {isOwner(record.daoAddress) && record.status === "pending" && (
-                    <button className="action-btn tech-button success" onClick={(e) => { e.stopPropagation(); activateInvestment(record.id); }}>Activate</button>
-                  )}
-                  {isOwner(record.daoAddress) && record.status === "active" && (
-                    <button className="action-btn tech-button danger" onClick={(e) => { e.stopPropagation(); withdrawInvestment(record.id); }}>Withdraw</button>
-                  )}
+              <div className="records-list tech-panel">
+                <div className="table-header">
+                  <div className="header-cell">ID</div>
+                  <div className="header-cell">Investment Type</div>
+                  <div className="header-cell">DAO</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
                 </div>
+                {records.length === 0 ? (
+                  <div className="no-records">
+                    <div className="no-records-icon"></div>
+                    <p>No treasury deposits found</p>
+                    <button className="tech-button primary" onClick={() => setShowDepositModal(true)}>Make First Deposit</button>
+                  </div>
+                ) : records.map(record => (
+                  <div className="record-row" key={record.id} onClick={() => setSelectedRecord(record)}>
+                    <div className="table-cell record-id">#{record.id.substring(0, 6)}</div>
+                    <div className="table-cell">{record.investmentType}</div>
+                    <div className="table-cell">{record.daoAddress.substring(0, 6)}...{record.daoAddress.substring(38)}</div>
+                    <div className="table-cell">{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
+                    <div className="table-cell"><span className={`status-badge ${record.status}`}>{record.status}</span></div>
+                    <div className="table-cell actions">
+                      {isOwner(record.daoAddress) && record.status === "pending" && (
+                        <button className="action-btn tech-button success" onClick={(e) => { e.stopPropagation(); activateInvestment(record.id); }}>Activate</button>
+                      )}
+                      {canWithdraw(record) && (
+                        <button className="action-btn tech-button danger" onClick={(e) => { e.stopPropagation(); withdrawInvestment(record); }}>Withdraw</button>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
-        <div className="community-links">
-          <h3>Join the Community</h3>
-          <div className="link-buttons">
-            <a href="#" className="tech-button">Discord</a>
-            <a href="#" className="tech-button">Twitter</a>
-            <a href="#" className="tech-button">GitHub</a>
-            <a href="#" className="tech-button">Documentation</a>
-          </div>
-        </div>
+            </div>
+            <div className="community-links">
+              <h3>Join the Community</h3>
+              <div className="link-buttons">
+                <a href="#" className="tech-button">Discord</a>
+                <a href="#" className="tech-button">Twitter</a>
+                <a href="#" className="tech-button">GitHub</a>
+                <a href="#" className="tech-button">Documentation</a>
+              </div>
+            </div>
+          </>} />
+        </Routes>
       </div>
-      {showDepositModal && <ModalDeposit onSubmit={depositFunds} onClose={() => setShowDepositModal(false)} depositing={depositing} depositData={newDepositData} setDepositData={setNewDepositData}/>}
+      {showDepositModal && <ModalDeposit onSubmit={depositFunds} onClose={() => { setShowDepositModal(false); setEncryptedHandle(null); }} depositing={depositing} depositData={newDepositData} setDepositData={setNewDepositData} encryptedHandle={encryptedHandle} blockedReason={submitBlockedReason}/>}
       {selectedRecord && <RecordDetailModal record={selectedRecord} onClose={() => { setSelectedRecord(null); setDecryptedAmount(null); }} decryptedAmount={decryptedAmount} setDecryptedAmount={setDecryptedAmount} isDecrypting={isDecrypting} decryptWithSignature={decryptWithSignature}/>}
       {transactionStatus.visible && (
         <div className="transaction-modal">
@@ -413,21 +524,22 @@ interface ModalDepositProps {
   depositing: boolean;
   depositData: any;
   setDepositData: (data: any) => void;
+  encryptedHandle: string | null;
+  blockedReason: string | null;
 }
 
-const ModalDeposit: React.FC<ModalDepositProps> = ({ onSubmit, onClose, depositing, depositData, setDepositData }) => {
+const ModalDeposit: React.FC<ModalDepositProps> = ({ onSubmit, onClose, depositing, depositData, setDepositData, encryptedHandle, blockedReason }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setDepositData({ ...depositData, [name]: value });
   };
 
-  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setDepositData({ ...depositData, [name]: parseFloat(value) });
-  };
+  let amountError: string | null = null;
+  try { if (depositData.amount) parseAmount(depositData.amount); } catch (e: any) { amountError = e.message; }
 
   const handleSubmit = () => {
     if (!depositData.investmentType || !depositData.amount) { alert("Please fill required fields"); return; }
+    if (amountError) { alert(amountError); return; }
     onSubmit();
   };
 
@@ -456,29 +568,33 @@ const ModalDeposit: React.FC<ModalDepositProps> = ({ onSubmit, onClose, depositi
               </select>
             </div>
             <div className="form-group">
-              <label>Amount (ETH) *</label>
+              <label>Amount *</label>
               <input 
-                type="number" 
+                type="text" 
+                inputMode="decimal"
                 name="amount" 
                 value={depositData.amount} 
-                onChange={handleAmountChange} 
-                placeholder="Enter amount..." 
+                onChange={handleChange} 
+                placeholder={`Enter amount (up to ${AMOUNT_DECIMALS} decimals)...`} 
                 className="tech-input"
-                step="0.01"
               />
+              {amountError && <div className="input-error">{amountError}</div>}
             </div>
           </div>
           <div className="encryption-preview">
             <h4>FHE Encryption Preview</h4>
             <div className="preview-container">
-              <div className="plain-data"><span>Plain Amount:</span><div>{depositData.amount || 'No amount entered'}</div></div>
+              <div className="plain-data"><span>Plain Amount:</span><div>{depositData.amount && !amountError ? `${depositData.amount} (${parseAmount(depositData.amount).toString()} base units)` : 'No amount entered'}</div></div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
-                <span>Encrypted Data:</span>
-                <div>{depositData.amount ? FHEEncryptNumber(depositData.amount).substring(0, 50) + '...' : 'No amount entered'}</div>
+                <span>Ciphertext Handle:</span>
+                <div>{encryptedHandle ? encryptedHandle : depositData.amount ? 'Encrypted with the Zama relayer SDK on submit' : 'No amount entered'}</div>
               </div>
             </div>
           </div>
+          {blockedReason && !depositing && (
+            <div className="preflight-notice"><div className="warning-icon"></div><span>{blockedReason}</span></div>
+          )}
           <div className="privacy-notice">
             <div className="privacy-icon"></div> 
             <div><strong>DAO Treasury Privacy</strong><p>Amounts remain encrypted during FHE processing and are never decrypted on-chain</p></div>
@@ -486,7 +602,7 @@ const ModalDeposit: React.FC<ModalDepositProps> = ({ onSubmit, onClose, depositi
         </div>
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn tech-button">Cancel</button>
-          <button onClick={handleSubmit} disabled={depositing} className="submit-btn tech-button primary">
+          <button onClick={handleSubmit} disabled={depositing || !!blockedReason} className="submit-btn tech-button primary">
             {depositing ? "Encrypting with FHE..." : "Submit Deposit"}
           </button>
         </div>
@@ -498,10 +614,10 @@ const ModalDeposit: React.FC<ModalDepositProps> = ({ onSubmit, onClose, depositi
 interface RecordDetailModalProps {
   record: TreasuryRecord;
   onClose: () => void;
-  decryptedAmount: number | null;
-  setDecryptedAmount: (value: number | null) => void;
+  decryptedAmount: bigint | null;
+  setDecryptedAmount: (value: bigint | null) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptWithSignature: (encryptedData: string) => Promise<bigint | null>;
 }
 
 const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ record, onClose, decryptedAmount, setDecryptedAmount, isDecrypting, decryptWithSignature }) => {
@@ -536,7 +652,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ record, onClose,
           {decryptedAmount !== null && (
             <div className="decrypted-data-section">
               <h3>Decrypted Amount</h3>
-              <div className="decrypted-value">{decryptedAmount} ETH</div>
+              <div className="decrypted-value">{formatAmount(decryptedAmount)}</div>
               <div className="decryption-notice"><div className="warning-icon"></div><span>Decrypted amount is only visible after wallet signature verification</span></div>
             </div>
           )}
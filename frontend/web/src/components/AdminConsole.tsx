@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, getTreasuryReadOnly, getTreasuryWithSigner } from '../contract';
+import { encryptAmount } from '../fhevm';
+import { OPERATOR_APPROVAL_SECONDS } from './TokenWallet';
+import { formatTreasuryError } from '../../../../src/treasuryErrors';
+import { parseAmount } from '../../../../src/amounts';
+import type { AdminEventName, TreasuryClient, TreasuryEvent, TreasuryReceipt, TreasurySettings } from '../../../../src/TreasuryClient';
+import { formatDuration } from './TimelockQueue';
+import CouncilApprovals from './CouncilApprovals';
+
+type TransactionState = "pending" | "success" | "error";
+
+interface AdminConsoleProps {
+  account: string;
+  onTransactionStatus: (status: TransactionState, message: string) => void;
+  onChanged?: () => void;
+}
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+const describeAdminEvent = (event: TreasuryEvent<AdminEventName>): string => {
+  switch (event.name) {
+    case 'CouncilMemberAdded':
+      return `Council member added ${shortAddr((event.args as TreasuryEvent<'CouncilMemberAdded'>['args']).member)}`;
+    case 'CouncilMemberRemoved':
+      return `Council member removed ${shortAddr((event.args as TreasuryEvent<'CouncilMemberRemoved'>['args']).member)}`;
+    case 'CouncilThresholdSet': {
+      const args = event.args as TreasuryEvent<'CouncilThresholdSet'>['args'];
+      return `Council threshold ${args.oldThreshold.toString()} → ${args.newThreshold.toString()}`;
+    }
+    case 'ProviderAdded':
+      return `Provider added ${shortAddr((event.args as TreasuryEvent<'ProviderAdded'>['args']).provider)}`;
+    case 'ProviderRemoved':
+      return `Provider removed ${shortAddr((event.args as TreasuryEvent<'ProviderRemoved'>['args']).provider)}`;
+    case 'PauseToggled':
+      return (event.args as TreasuryEvent<'PauseToggled'>['args']).isPaused ? 'Treasury paused' : 'Treasury unpaused';
+    case 'CooldownSecondsSet': {
+      const args = event.args as TreasuryEvent<'CooldownSecondsSet'>['args'];
+      return `Cooldown ${args.oldCooldownSeconds.toString()}s → ${args.newCooldownSeconds.toString()}s`;
+    }
+    case 'BatchOpened': {
+      const args = event.args as TreasuryEvent<'BatchOpened'>['args'];
+      const limits = [
+        args.closesAt > 0n ? `until ${new Date(Number(args.closesAt) * 1000).toLocaleString()}` : '',
+        args.maxContributions > 0n ? `for ${args.maxContributions.toString()} contributions` : ''
+      ].filter(Boolean).join(', ');
+      return `Batch #${args.batchId.toString()} opened${limits ? ` ${limits}` : ''}`;
+    }
+    case 'BatchClosed':
+      return `Batch #${(event.args as TreasuryEvent<'BatchClosed'>['args']).batchId.toString()} closed`;
+    case 'BatchDisbursed': {
+      const args = event.args as TreasuryEvent<'BatchDisbursed'>['args'];
+      return `Batch #${args.batchId.toString()} disbursed to ${shortAddr(args.recipient)}`;
+    }
+    case 'BatchSettled':
+      return `Batch #${(event.args as TreasuryEvent<'BatchSettled'>['args']).batchId.toString()} settled`;
+    case 'FundingTargetSet':
+      return `Funding target set for batch #${(event.args as TreasuryEvent<'FundingTargetSet'>['args']).batchId.toString()}`;
+    case 'TimelockDelaySet': {
+      const args = event.args as TreasuryEvent<'TimelockDelaySet'>['args'];
+      return `Timelock delay ${formatDuration(Number(args.oldDelay))} → ${formatDuration(Number(args.newDelay))}`;
+    }
+  }
+};
+
+export default function AdminConsole({ account, onTransactionStatus, onChanged }: AdminConsoleProps) {
+  const [settings, setSettings] = useState<TreasurySettings | null>(null);
+  const [history, setHistory] = useState<TreasuryEvent<AdminEventName>[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [providerInput, setProviderInput] = useState("");
+  const [memberInput, setMemberInput] = useState("");
+  const [thresholdInput, setThresholdInput] = useState("");
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [delayInput, setDelayInput] = useState("");
+  const [settlement, setSettlement] = useState({ batchId: "", amount: "" });
+  const [disbursement, setDisbursement] = useState({ batchId: "", recipient: "" });
+  const [batchWindow, setBatchWindow] = useState({ closesAt: "", maxContributions: "" });
+  const [target, setTarget] = useState({ batchId: "", amount: "" });
+  const [proposalKey, setProposalKey] = useState(0);
+
+  const loadState = useCallback(async () => {
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const [current, events] = await Promise.all([treasury.getSettings(), treasury.adminHistory(config.treasuryDeployBlock)]);
+      setSettings(current);
+      setHistory(events);
+    } catch (e) { console.error("Error loading admin state:", e); }
+  }, []);
+
+  useEffect(() => { loadState(); }, [loadState]);
+
+  const runAction = async (confirmation: string, pendingMessage: string, action: (treasury: TreasuryClient) => Promise<TreasuryReceipt>) => {
+    if (!window.confirm(confirmation)) return;
+    setBusy(true);
+    onTransactionStatus("pending", pendingMessage);
+    let treasury: TreasuryClient | null = null;
+    try {
+      treasury = await getTreasuryWithSigner();
+      await action(treasury);
+      onTransactionStatus("success", "Admin action confirmed on-chain");
+      setProposalKey(k => k + 1);
+      await loadState();
+      onChanged?.();
+    } catch (e) {
+      onTransactionStatus("error", await formatTreasuryError(e, "Admin action failed", treasury ? { client: treasury, account } : undefined));
+    } finally { setBusy(false); }
+  };
+
+  const requireAddress = (value: string): string | null => {
+    if (!ethers.isAddress(value)) { alert("Please enter a valid address"); return null; }
+    return ethers.getAddress(value);
+  };
+
+  // Every change is proposed to the council here and runs once enough members approve it.
+  const approvalNotice = settings ? ` It runs once ${settings.councilThreshold.toString()} of ${settings.councilMembers.length} council members approve.` : "";
+  // Sensitive changes are then only queued; they run from the timelock queue once their delay has passed.
+  const delayNotice = settings ? `${approvalNotice} It can then be executed after ${formatDuration(Number(settings.timelockDelay))}.` : "";
+
+  const addProvider = () => {
+    const provider = requireAddress(providerInput);
+    if (!provider) return;
+    runAction(`Propose registering ${provider} as a treasury provider?${approvalNotice}`, "Proposing provider...", t => t.proposeAddProvider(provider));
+  };
+
+  const removeProvider = () => {
+    const provider = requireAddress(providerInput);
+    if (!provider) return;
+    runAction(`Queue removal of ${provider} from the treasury providers?${delayNotice}`, "Queueing provider removal...", t => t.queueRemoveProvider(provider));
+  };
+
+  const addCouncilMember = () => {
+    const member = requireAddress(memberInput);
+    if (!member) return;
+    runAction(`Queue adding ${member} to the council? It also becomes a provider.${delayNotice}`, "Proposing council member...", t => t.queueAddCouncilMember(member));
+  };
+
+  const removeCouncilMember = () => {
+    const member = requireAddress(memberInput);
+    if (!member) return;
+    runAction(`Queue removing ${member} from the council? It stays a provider.${delayNotice}`, "Proposing council member removal...", t => t.queueRemoveCouncilMember(member));
+  };
+
+  const setCouncilThreshold = () => {
+    if (!/^\d+$/.test(thresholdInput) || thresholdInput === "0") { alert("Threshold must be a positive whole number"); return; }
+    runAction(`Queue requiring ${thresholdInput} council approvals per action?${delayNotice}`, "Proposing threshold change...", t => t.queueSetCouncilThreshold(BigInt(thresholdInput)));
+  };
+
+  const setCooldown = () => {
+    if (!/^\d+$/.test(cooldownInput)) { alert("Cooldown must be a whole number of seconds"); return; }
+    runAction(`Queue setting the submission and decryption cooldown to ${cooldownInput} seconds?${delayNotice}`, "Queueing cooldown change...", t => t.queueSetCooldownSeconds(BigInt(cooldownInput)));
+  };
+
+  const setTimelockDelay = () => {
+    if (!/^\d+$/.test(delayInput)) { alert("Delay must be a whole number of hours"); return; }
+    const seconds = Number(delayInput) * 3600;
+    runAction(`Queue setting the timelock delay to ${formatDuration(seconds)}?${delayNotice}`, "Queueing timelock delay change...", t => t.queueSetTimelockDelay(seconds));
+  };
+
+  const togglePause = () => {
+    if (!settings) return;
+    const next = !settings.paused;
+    runAction(next ? `Queue pausing the treasury? Submissions, batch changes and decryption requests will be blocked once it executes.${delayNotice}` : `Queue unpausing the treasury?${delayNotice}`, next ? "Queueing pause..." : "Queueing unpause...", t => t.queueSetPaused(next));
+  };
+
+  const openBatch = () => {
+    const closesAt = batchWindow.closesAt ? Math.floor(new Date(batchWindow.closesAt).getTime() / 1000) : 0;
+    if (Number.isNaN(closesAt)) { alert("Please enter a valid closing time"); return; }
+    if (batchWindow.maxContributions && !/^\d+$/.test(batchWindow.maxContributions)) { alert("Contribution cap must be a whole number"); return; }
+    const maxContributions = BigInt(batchWindow.maxContributions || 0);
+    const limits = [
+      closesAt ? `closes ${new Date(closesAt * 1000).toLocaleString()}` : "",
+      maxContributions ? `closes after ${maxContributions.toString()} contributions` : ""
+    ].filter(Boolean).join(" or ");
+    runAction(
+      `Propose opening a new investment batch${limits ? ` that ${limits}` : " with no window"}? The deadline must still be ahead when the proposal executes.${approvalNotice}`,
+      "Proposing new batch...",
+      async t => {
+        const result = await t.proposeOpenNewBatch(closesAt, maxContributions);
+        setBatchWindow({ closesAt: "", maxContributions: "" });
+        return result;
+      }
+    );
+  };
+
+  const closeBatch = () => {
+    if (!settings) return;
+    runAction(`Propose closing batch #${settings.currentBatchId.toString()}? No further contributions will be accepted.${approvalNotice}`, "Proposing batch close...", t => t.proposeCloseCurrentBatch());
+  };
+
+  const validSettlementBatch = () => {
+    if (/^\d+$/.test(settlement.batchId) && settlement.batchId !== "0") return true;
+    alert("Please enter a valid batch number");
+    return false;
+  };
+
+  const payInReturns = () => {
+    if (!validSettlementBatch()) return;
+    let amount: bigint;
+    try { amount = parseAmount(settlement.amount); } catch (e: any) { alert(e.message); return; }
+    runAction(
+      `Pay ${settlement.amount} in returns to batch #${settlement.batchId}? Contributors can claim their share once the council settles the batch.`,
+      "Encrypting and paying in batch returns...",
+      async t => {
+        if (!(await t.isTreasuryOperator(account))) {
+          await t.approveTreasury(Math.floor(Date.now() / 1000) + OPERATOR_APPROVAL_SECONDS);
+        }
+        const encrypted = await encryptAmount(t.address, account, amount);
+        const result = await t.depositReturns(BigInt(settlement.batchId), encrypted.handle, encrypted.inputProof);
+        setSettlement({ ...settlement, amount: "" });
+        return result;
+      }
+    );
+  };
+
+  const proposeFundingTarget = () => {
+    const batchId = target.batchId || settings?.currentBatchId.toString() || "";
+    if (!/^\d+$/.test(batchId) || batchId === "0") { alert("Please enter a valid batch number"); return; }
+    let amount: bigint;
+    try { amount = parseAmount(target.amount); } catch (e: any) { alert(e.message); return; }
+    runAction(
+      `Propose a funding target of ${target.amount} for batch #${batchId}? The target stays encrypted; only whether the total reaches it is revealed.${approvalNotice}`,
+      "Encrypting and proposing funding target...",
+      async t => {
+        // The council executes the call from the treasury, which is therefore the input's user.
+        const encrypted = await encryptAmount(t.address, t.address, amount);
+        const result = await t.proposeSetFundingTarget(BigInt(batchId), encrypted.handle, encrypted.inputProof);
+        setTarget({ batchId: "", amount: "" });
+        return result;
+      }
+    );
+  };
+
+  const disburseBatch = () => {
+    if (!/^\d+$/.test(disbursement.batchId) || disbursement.batchId === "0") { alert("Please enter a valid batch number"); return; }
+    const recipient = requireAddress(disbursement.recipient);
+    if (!recipient) return;
+    runAction(`Queue transferring batch #${disbursement.batchId}'s pooled contributions to ${recipient}?${delayNotice}`, "Queueing disbursement...", t => t.queueDisburseBatch(BigInt(disbursement.batchId), recipient));
+  };
+
+  const settleBatch = () => {
+    if (!validSettlementBatch()) return;
+    runAction(`Propose settling batch #${settlement.batchId}? No further returns can be paid in once it runs.${approvalNotice}`, "Proposing settlement...", t => t.proposeSettleBatch(BigInt(settlement.batchId)));
+  };
+
+  return (
+    <div className="admin-section">
+      <div className="section-header">
+        <h2>Council Administration</h2>
+        <div className="header-actions">
+          <button onClick={loadState} className="refresh-btn tech-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+      <div className="admin-grid">
+        <div className="dashboard-panel tech-panel">
+          <h3>Current Parameters</h3>
+          {settings ? (
+            <div className="record-info">
+              <div className="info-item"><span>Council:</span><strong>{settings.councilThreshold.toString()} of {settings.councilMembers.length} members</strong></div>
+              <div className="info-item"><span>Paused:</span><strong>{settings.paused ? "Yes" : "No"}</strong></div>
+              <div className="info-item"><span>Cooldown:</span><strong>{settings.cooldownSeconds.toString()} s</strong></div>
+              <div className="info-item"><span>Timelock Delay:</span><strong>{formatDuration(Number(settings.timelockDelay))}</strong></div>
+              <div className="info-item"><span>Current Batch:</span><strong>#{settings.currentBatchId.toString()} ({settings.currentBatchClosed ? "closed" : "open"})</strong></div>
+            </div>
+          ) : <p>Loading...</p>}
+          <div className="admin-actions">
+            <button className={`tech-button ${settings?.paused ? "success" : "danger"}`} onClick={togglePause} disabled={busy || !settings}>
+              {settings?.paused ? "Queue Unpause" : "Queue Pause"}
+            </button>
+            <button className="tech-button" onClick={closeBatch} disabled={busy || settings?.paused || settings?.currentBatchClosed}>Propose Batch Close</button>
+          </div>
+        </div>
+        <div className="dashboard-panel tech-panel">
+          <h3>Providers & Parameters</h3>
+          <div className="form-group">
+            <label>Provider Address</label>
+            <input className="tech-input" value={providerInput} onChange={e => setProviderInput(e.target.value)} placeholder="0x..." />
+            <div className="admin-actions">
+              <button className="tech-button success" onClick={addProvider} disabled={busy}>Propose Provider</button>
+              <button className="tech-button danger" onClick={removeProvider} disabled={busy}>Queue Removal</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Next Batch Window (optional)</label>
+            <input className="tech-input" type="datetime-local" value={batchWindow.closesAt} onChange={e => setBatchWindow({ ...batchWindow, closesAt: e.target.value })} title="Submissions are refused after this time" />
+            <input className="tech-input" type="number" min="1" step="1" value={batchWindow.maxContributions} onChange={e => setBatchWindow({ ...batchWindow, maxContributions: e.target.value })} placeholder="Contribution cap" />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={openBatch} disabled={busy || settings?.paused || !settings?.currentBatchClosed} title={settings?.currentBatchClosed ? undefined : "Close the current batch first"}>Propose New Batch</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Funding Target (encrypted)</label>
+            <input className="tech-input" type="number" min="1" step="1" value={target.batchId} onChange={e => setTarget({ ...target, batchId: e.target.value })} placeholder={settings ? `Batch # (default ${settings.currentBatchId.toString()})` : "Batch #"} />
+            <input className="tech-input" type="text" inputMode="decimal" value={target.amount} onChange={e => setTarget({ ...target, amount: e.target.value })} placeholder="Minimum raise" />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={proposeFundingTarget} disabled={busy || settings?.paused}>Propose Target</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Cooldown (seconds)</label>
+            <input className="tech-input" type="number" min="0" step="1" value={cooldownInput} onChange={e => setCooldownInput(e.target.value)} placeholder={settings?.cooldownSeconds.toString()} />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={setCooldown} disabled={busy}>Queue Cooldown</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Timelock Delay (hours)</label>
+            <input className="tech-input" type="number" min="1" max="720" step="1" value={delayInput} onChange={e => setDelayInput(e.target.value)} placeholder={settings ? String(Number(settings.timelockDelay) / 3600) : undefined} />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={setTimelockDelay} disabled={busy}>Queue Delay</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Council Member</label>
+            <input className="tech-input" value={memberInput} onChange={e => setMemberInput(e.target.value)} placeholder="0x..." />
+            <div className="admin-actions">
+              <button className="tech-button success" onClick={addCouncilMember} disabled={busy}>Queue Addition</button>
+              <button className="tech-button danger" onClick={removeCouncilMember} disabled={busy}>Queue Removal</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Council Threshold</label>
+            <input className="tech-input" type="number" min="1" step="1" value={thresholdInput} onChange={e => setThresholdInput(e.target.value)} placeholder={settings?.councilThreshold.toString()} />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={setCouncilThreshold} disabled={busy}>Queue Threshold</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Disburse Batch Principal</label>
+            <input className="tech-input" type="number" min="1" step="1" value={disbursement.batchId} onChange={e => setDisbursement({ ...disbursement, batchId: e.target.value })} placeholder="Closed batch #" />
+            <input className="tech-input" value={disbursement.recipient} onChange={e => setDisbursement({ ...disbursement, recipient: e.target.value })} placeholder="Recipient 0x..." />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={disburseBatch} disabled={busy || settings?.paused}>Queue Disbursement</button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Settle Batch Returns</label>
+            <input className="tech-input" type="number" min="1" step="1" value={settlement.batchId} onChange={e => setSettlement({ ...settlement, batchId: e.target.value })} placeholder="Batch #" />
+            <input className="tech-input" type="text" inputMode="decimal" value={settlement.amount} onChange={e => setSettlement({ ...settlement, amount: e.target.value })} placeholder="Returned amount" />
+            <div className="admin-actions">
+              <button className="tech-button" onClick={payInReturns} disabled={busy || settings?.paused}>Pay In Returns</button>
+              <button className="tech-button success" onClick={settleBatch} disabled={busy || settings?.paused}>Propose Settlement</button>
+            </div>
+          </div>
+        </div>
+        <CouncilApprovals account={account} refreshKey={proposalKey} onTransactionStatus={onTransactionStatus} onChanged={() => { loadState(); onChanged?.(); }} />
+        <div className="dashboard-panel tech-panel">
+          <h3>Admin History</h3>
+          <div className="activity-feed admin-history">
+            {history.length === 0 && <p>No admin events found</p>}
+            {history.map(event => (
+              <div className="activity-item" key={`${event.transactionHash}-${event.logIndex}`}>
+                <div className="activity-type">{describeAdminEvent(event)}</div>
+                <div className="activity-dao">{event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : `block ${event.blockNumber}`}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
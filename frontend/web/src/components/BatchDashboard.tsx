@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ZeroHash } from 'ethers';
+import { config, getTreasuryReadOnly } from '../contract';
+import { batchCloseBlocker, batchWindowElapsed, decryptionBlocker, payoutBlocker, targetCheckBlocker, type BatchSummary, type BatchTimelineEventName, type PayoutStatus, type TreasuryEvent } from '../../../../src/TreasuryClient';
+import { explainTreasuryErrorName } from '../../../../src/treasuryErrors';
+import { formatAmount } from '../../../../src/amounts';
+import type { ProviderStatusState } from '../hooks/useProviderStatus';
+import { formatDuration } from './TimelockQueue';
+
+interface BatchDashboardProps {
+  refreshKey?: number;
+  account?: string;
+  providerStatus?: ProviderStatusState;
+  onRequestDecryption?: (batchId: bigint) => void;
+  onClaimPayout?: (batchId: bigint) => void;
+  onCloseBatch?: (batchId: bigint) => void;
+  onCheckTarget?: (batchId: bigint) => void;
+  decryptHandle?: (handle: string) => Promise<bigint | null>;
+}
+
+const TIMELINE_LABELS: Record<BatchTimelineEventName, string> = {
+  BatchOpened: 'Batch opened',
+  BatchClosed: 'Batch closed',
+  InvestmentSubmitted: 'Encrypted contribution',
+  ContributionWithdrawn: 'Contribution withdrawn',
+  DecryptionRequested: 'Total decryption requested',
+  DecryptionCompleted: 'Total revealed',
+  FundingTargetSet: 'Funding target set',
+  FundingTargetCheckRequested: 'Target check requested',
+  FundingTargetChecked: 'Target checked',
+  BatchDisbursed: 'Principal disbursed',
+  ReturnsDeposited: 'Returns paid in',
+  BatchSettled: 'Batch settled',
+  PayoutClaimed: 'Payout claimed'
+};
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+const describeEvent = (event: TreasuryEvent<BatchTimelineEventName>): string => {
+  switch (event.name) {
+    case 'InvestmentSubmitted': {
+      const args = event.args as TreasuryEvent<'InvestmentSubmitted'>['args'];
+      return `from ${shortAddr(args.provider)}`;
+    }
+    case 'ContributionWithdrawn': {
+      const args = event.args as TreasuryEvent<'ContributionWithdrawn'>['args'];
+      return `by ${shortAddr(args.provider)}`;
+    }
+    case 'DecryptionRequested': {
+      const args = event.args as TreasuryEvent<'DecryptionRequested'>['args'];
+      return `request #${args.requestId.toString()}`;
+    }
+    case 'DecryptionCompleted': {
+      const args = event.args as TreasuryEvent<'DecryptionCompleted'>['args'];
+      return `total ${formatAmount(args.totalInvestment)}`;
+    }
+    case 'FundingTargetChecked': {
+      const args = event.args as TreasuryEvent<'FundingTargetChecked'>['args'];
+      return args.reached ? 'target met' : 'target not met';
+    }
+    case 'BatchDisbursed': {
+      const args = event.args as TreasuryEvent<'BatchDisbursed'>['args'];
+      return `to ${shortAddr(args.recipient)}`;
+    }
+    case 'ReturnsDeposited': {
+      const args = event.args as TreasuryEvent<'ReturnsDeposited'>['args'];
+      return `by ${shortAddr(args.from)}`;
+    }
+    case 'PayoutClaimed': {
+      const args = event.args as TreasuryEvent<'PayoutClaimed'>['args'];
+      return `by ${shortAddr(args.provider)}`;
+    }
+    default:
+      return '';
+  }
+};
+
+export default function BatchDashboard({ refreshKey, account, providerStatus, onRequestDecryption, onClaimPayout, onCloseBatch, onCheckTarget, decryptHandle }: BatchDashboardProps) {
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [contributions, setContributions] = useState<Record<string, string>>({});
+  const [payouts, setPayouts] = useState<Record<string, PayoutStatus>>({});
+  const [decryptedPayouts, setDecryptedPayouts] = useState<Record<string, bigint>>({});
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [decrypting, setDecrypting] = useState<bigint | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<bigint | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) { setError('Treasury contract is not configured'); return; }
+      const list = await treasury.listBatches(config.treasuryDeployBlock);
+      setBatches(list.reverse());
+      if (account) {
+        const [handles, payoutStatuses] = await Promise.all([
+          Promise.all(list.map(b => treasury.getContribution(b.batchId, account))),
+          Promise.all(list.map(b => treasury.getPayoutStatus(b.batchId, account)))
+        ]);
+        setContributions(Object.fromEntries(list.map((b, i) => [b.batchId.toString(), handles[i]])));
+        setPayouts(Object.fromEntries(list.map((b, i) => [b.batchId.toString(), payoutStatuses[i]])));
+      } else {
+        setContributions({});
+        setPayouts({});
+      }
+      setDecrypted({});
+      setDecryptedPayouts({});
+    } catch (e: any) {
+      console.error('Error loading batches:', e);
+      setError(e.message || 'Failed to load batches');
+    } finally {
+      setLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => { loadBatches(); }, [loadBatches, refreshKey]);
+
+  const decryptInto = async (batchId: bigint, handle: string, store: typeof setDecrypted) => {
+    if (!decryptHandle) return;
+    setDecrypting(batchId);
+    try {
+      const value = await decryptHandle(handle);
+      if (value !== null) store(prev => ({ ...prev, [batchId.toString()]: value }));
+    } finally {
+      setDecrypting(null);
+    }
+  };
+
+  const renderContribution = (batch: BatchSummary) => {
+    const key = batch.batchId.toString();
+    const handle = contributions[key];
+    if (!account || !handle || handle === ZeroHash) return '—';
+    if (decrypted[key] !== undefined) return formatAmount(decrypted[key]);
+    return (
+      <button className="action-btn tech-button" disabled={!decryptHandle || decrypting !== null} onClick={(e) => { e.stopPropagation(); decryptInto(batch.batchId, handle, setDecrypted); }}>
+        {decrypting === batch.batchId ? 'Decrypting...' : '🔓 Decrypt mine'}
+      </button>
+    );
+  };
+
+  const renderPayout = (batch: BatchSummary) => {
+    const key = batch.batchId.toString();
+    const payout = payouts[key];
+    if (!account || !payout || !batch.settled || contributions[key] === ZeroHash) return '—';
+    if (!payout.claimed) return <span className="status-badge pending">unclaimed</span>;
+    if (decryptedPayouts[key] !== undefined) return formatAmount(decryptedPayouts[key]);
+    return (
+      <button className="action-btn tech-button" disabled={!decryptHandle || decrypting !== null} onClick={(e) => { e.stopPropagation(); decryptInto(batch.batchId, payout.payout, setDecryptedPayouts); }}>
+        {decrypting === batch.batchId ? 'Decrypting...' : '🔓 Claimed'}
+      </button>
+    );
+  };
+
+  const renderClaimAction = (batch: BatchSummary) => {
+    const status = providerStatus?.status;
+    const key = batch.batchId.toString();
+    const payout = payouts[key];
+    if (!onClaimPayout || !status || !payout || !batch.settled || payout.claimed) return null;
+    const blocker = payoutBlocker(status, batch, payout, contributions[key] ?? ZeroHash);
+    if (blocker === 'NotInitialized') return null;
+    return (
+      <button className="action-btn tech-button success" disabled={!!blocker} title={blocker ? explainTreasuryErrorName(blocker).message : undefined} onClick={(e) => { e.stopPropagation(); onClaimPayout(batch.batchId); }}>
+        Claim Payout
+      </button>
+    );
+  };
+
+  const renderDecryptAction = (batch: BatchSummary) => {
+    const status = providerStatus?.status;
+    if (!onRequestDecryption || !status || !batch.closed || batch.decryption === 'completed' || batch.contributions === 0n) return null;
+    const blocker = decryptionBlocker(status, batch, providerStatus.chainNow);
+    if (blocker === 'NotProvider') return null;
+    const reason = blocker === 'CooldownActive' ? `Cooldown ends in ${providerStatus.decryptCooldown} s` : blocker ? explainTreasuryErrorName(blocker).message : undefined;
+    return (
+      <button className="action-btn tech-button" disabled={!!blocker} title={reason} onClick={(e) => { e.stopPropagation(); onRequestDecryption(batch.batchId); }}>
+        {blocker === 'CooldownActive' ? `Decrypt in ${providerStatus.decryptCooldown}s` : 'Request Decryption'}
+      </button>
+    );
+  };
+
+  const chainNow = providerStatus?.chainNow ?? Math.floor(Date.now() / 1000);
+
+  const renderProgress = (batch: BatchSummary) => {
+    if (batch.maxContributions === 0n) return batch.contributions.toString();
+    const percent = Math.min(100, Number((batch.contributions * 100n) / batch.maxContributions));
+    return (
+      <div className="batch-progress" title={`${percent}% of the contribution cap`}>
+        <span>{batch.contributions.toString()} / {batch.maxContributions.toString()}</span>
+        <div className="progress-track"><div className="progress-fill" style={{ width: `${percent}%` }} /></div>
+      </div>
+    );
+  };
+
+  const renderWindow = (batch: BatchSummary) => {
+    if (batch.closesAt === 0) return batch.maxContributions === 0n ? '—' : 'until full';
+    if (batch.closed || chainNow >= batch.closesAt) return `ended ${new Date(batch.closesAt * 1000).toLocaleString()}`;
+    return <span className="batch-countdown">closes in {formatDuration(batch.closesAt - chainNow)}</span>;
+  };
+
+  const renderCloseAction = (batch: BatchSummary) => {
+    if (!onCloseBatch || !account || batch.closed || !batchWindowElapsed(batch, chainNow)) return null;
+    const blocker = batchCloseBlocker(providerStatus?.status?.paused ?? false, batch, chainNow);
+    return (
+      <button className="action-btn tech-button danger" disabled={!!blocker} title={blocker ? explainTreasuryErrorName(blocker).message : 'The window is over; anyone can close the batch'} onClick={(e) => { e.stopPropagation(); onCloseBatch(batch.batchId); }}>
+        Close Batch
+      </button>
+    );
+  };
+
+  const renderTarget = (batch: BatchSummary) => {
+    switch (batch.fundingTarget) {
+      case 'none':
+        return '—';
+      case 'met':
+        return <span className="status-badge target-met">met</span>;
+      case 'unmet':
+        return <span className="status-badge target-unmet">not met</span>;
+      default: {
+        const requested = batch.timeline.some(event => event.name === 'FundingTargetCheckRequested');
+        return <span className="status-badge target-unchecked">{requested ? 'checking' : '🔒 set'}</span>;
+      }
+    }
+  };
+
+  const renderTargetAction = (batch: BatchSummary) => {
+    const status = providerStatus?.status;
+    if (!onCheckTarget || !status || !batch.closed || batch.fundingTarget !== 'unchecked') return null;
+    const blocker = targetCheckBlocker(status, batch, providerStatus.chainNow);
+    if (blocker === 'NotProvider' || blocker === 'NotInitialized') return null;
+    const reason = blocker === 'CooldownActive' ? `Cooldown ends in ${providerStatus.decryptCooldown} s` : blocker ? explainTreasuryErrorName(blocker).message : 'Reveals only whether the total reached the target';
+    return (
+      <button className="action-btn tech-button" disabled={!!blocker} title={reason} onClick={(e) => { e.stopPropagation(); onCheckTarget(batch.batchId); }}>
+        Check Target
+      </button>
+    );
+  };
+
+  const openCount = batches.filter(b => !b.closed).length;
+  const revealedCount = batches.filter(b => b.decryption === 'completed').length;
+
+  return (
+    <div className="batches-section">
+      <div className="section-header">
+        <h2>Investment Batches</h2>
+        <div className="header-actions">
+          <button onClick={loadBatches} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      <div className="batches-list tech-panel">
+        <div className="stats-grid batch-stats">
+          <div className="stat-item"><div className="stat-value">{batches.length}</div><div className="stat-label">Batches</div></div>
+          <div className="stat-item"><div className="stat-value">{openCount}</div><div className="stat-label">Open</div></div>
+          <div className="stat-item"><div className="stat-value">{batches.length - openCount}</div><div className="stat-label">Closed</div></div>
+          <div className="stat-item"><div className="stat-value">{revealedCount}</div><div className="stat-label">Totals Revealed</div></div>
+        </div>
+        <div className="batch-header">
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">State</div>
+          <div className="header-cell">Contributions</div>
+          <div className="header-cell">Window</div>
+          <div className="header-cell">Decryption</div>
+          <div className="header-cell">Revealed Total</div>
+          <div className="header-cell">Target</div>
+          <div className="header-cell">My Contribution</div>
+          <div className="header-cell">My Payout</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {error && <div className="no-records"><p>{error}</p></div>}
+        {!error && batches.length === 0 && !loading && <div className="no-records"><p>No batches found</p></div>}
+        {batches.map(batch => (
+          <div key={batch.batchId.toString()}>
+            <div className="batch-row" onClick={() => setExpanded(expanded === batch.batchId ? null : batch.batchId)}>
+              <div className="table-cell record-id">#{batch.batchId.toString()}</div>
+              <div className="table-cell"><span className={`status-badge ${batch.closed ? 'closed' : 'open'}`}>{batch.closed ? 'closed' : 'open'}</span></div>
+              <div className="table-cell">{renderProgress(batch)}</div>
+              <div className="table-cell">{renderWindow(batch)}</div>
+              <div className="table-cell"><span className={`status-badge decryption-${batch.decryption}`}>{batch.decryption}</span></div>
+              <div className="table-cell">{batch.revealedTotal !== undefined ? formatAmount(batch.revealedTotal) : '🔒 encrypted'}</div>
+              <div className="table-cell">{renderTarget(batch)}</div>
+              <div className="table-cell">{renderContribution(batch)}</div>
+              <div className="table-cell">{renderPayout(batch)}</div>
+              <div className="table-cell actions">{renderCloseAction(batch)}{renderDecryptAction(batch)}{renderTargetAction(batch)}{renderClaimAction(batch)}</div>
+            </div>
+            {expanded === batch.batchId && (
+              <ul className="batch-timeline">
+                {batch.timeline.length === 0 && <li className="timeline-item">No events in the scanned block range</li>}
+                {batch.timeline.map(event => (
+                  <li className={`timeline-item ${event.name}`} key={`${event.transactionHash}-${event.logIndex}`}>
+                    <span className="timeline-time">{event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : `block ${event.blockNumber}`}</span>
+                    <span className="timeline-label">{TIMELINE_LABELS[event.name]}</span>
+                    <span className="timeline-detail">{describeEvent(event)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { config, getTreasuryReadOnly, getTreasuryWithSigner } from '../contract';
+import { explainTreasuryErrorName, formatTreasuryError } from '../../../../src/treasuryErrors';
+import { councilActionBlocker, type CouncilAction, type TreasuryClient, type TreasurySettings } from '../../../../src/TreasuryClient';
+import { describeOperation } from './TimelockQueue';
+
+type TransactionState = "pending" | "success" | "error";
+
+interface CouncilApprovalsProps {
+  account: string;
+  refreshKey?: number;
+  onTransactionStatus: (status: TransactionState, message: string) => void;
+  onChanged?: () => void;
+}
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const describeCouncilAction = (action: CouncilAction): string => {
+  const [arg] = action.args;
+  switch (action.functionName) {
+    case 'addProvider':
+      return `Add provider ${shortAddr(String(arg))}`;
+    case 'openNewBatch': {
+      const [closesAt, maxContributions] = action.args.map(value => Number(value));
+      const limits = [
+        closesAt ? `until ${new Date(closesAt * 1000).toLocaleString()}` : '',
+        maxContributions ? `for ${maxContributions} contributions` : ''
+      ].filter(Boolean).join(', ');
+      return limits ? `Open a new batch ${limits}` : 'Open a new batch';
+    }
+    case 'closeCurrentBatch':
+      return 'Close the current batch';
+    case 'settleBatch':
+      return `Settle batch #${String(arg)}`;
+    case 'setFundingTarget':
+      return `Set an encrypted funding target for batch #${String(arg)}`;
+    case 'queueOperation':
+      return action.operation ? `Queue: ${describeOperation(action.operation)}` : 'Queue an operation';
+    case 'cancelOperation':
+      return `Cancel timelocked operation #${String(arg)}`;
+    default:
+      return action.functionName;
+  }
+};
+
+export default function CouncilApprovals({ account, refreshKey, onTransactionStatus, onChanged }: CouncilApprovalsProps) {
+  const [actions, setActions] = useState<CouncilAction[]>([]);
+  const [settings, setSettings] = useState<TreasurySettings | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadActions = useCallback(async () => {
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const [list, current] = await Promise.all([treasury.listCouncilActions(config.treasuryDeployBlock), treasury.getSettings()]);
+      setActions(list.filter(action => action.state !== 'executed'));
+      setSettings(current);
+    } catch (e) { console.error("Error loading council actions:", e); }
+  }, []);
+
+  useEffect(() => { loadActions(); }, [loadActions, refreshKey]);
+
+  const runAction = async (pendingMessage: string, successMessage: string, action: (treasury: TreasuryClient) => Promise<unknown>) => {
+    setBusy(true);
+    onTransactionStatus("pending", pendingMessage);
+    let treasury: TreasuryClient | null = null;
+    try {
+      treasury = await getTreasuryWithSigner();
+      await action(treasury);
+      onTransactionStatus("success", successMessage);
+      await loadActions();
+      onChanged?.();
+    } catch (e) {
+      onTransactionStatus("error", await formatTreasuryError(e, "Council action failed", treasury ? { client: treasury, account } : undefined));
+    } finally { setBusy(false); }
+  };
+
+  const renderActions = (action: CouncilAction) => {
+    if (!settings) return null;
+    const id = action.actionId;
+    const approveBlocker = councilActionBlocker(settings, account, action, 'approve');
+    const executeBlocker = councilActionBlocker(settings, account, action, 'execute');
+    return (
+      <>
+        {approveBlocker === 'AlreadyApproved' ? (
+          <button className="action-btn tech-button" disabled={busy}
+            onClick={() => runAction("Revoking approval...", "Approval revoked", t => t.revokeCouncilApproval(id))}>
+            Revoke
+          </button>
+        ) : (
+          <button className="action-btn tech-button primary" disabled={busy || !!approveBlocker} title={approveBlocker ? explainTreasuryErrorName(approveBlocker).message : undefined}
+            onClick={() => runAction("Approving council action...", "Council action approved", t => t.approveCouncilAction(id))}>
+            Approve
+          </button>
+        )}
+        <button className="action-btn tech-button success" disabled={busy || !!executeBlocker} title={executeBlocker ? explainTreasuryErrorName(executeBlocker).message : undefined}
+          onClick={() => window.confirm(`Execute "${describeCouncilAction(action)}" now?`) && runAction("Executing council action...", "Council action executed", t => t.executeCouncilAction(id))}>
+          Execute
+        </button>
+      </>
+    );
+  };
+
+  if (!settings) return null;
+  const threshold = Number(settings.councilThreshold);
+
+  return (
+    <div className="dashboard-panel tech-panel council-panel">
+      <h3>Council Approvals</h3>
+      <p className="council-note">Every administrative change needs {threshold} of {settings.councilMembers.length} council approvals.</p>
+      <div className="council-members">
+        {settings.councilMembers.map(member => {
+          const waiting = actions.filter(action => !action.approvals.some(a => sameAddress(a, member))).length;
+          return (
+            <div className={`council-member ${sameAddress(member, account) ? 'self' : ''}`} key={member}>
+              <strong>{shortAddr(member)}</strong>
+              <span>{waiting === 0 ? 'nothing pending' : `${waiting} awaiting approval`}</span>
+            </div>
+          );
+        })}
+      </div>
+      {actions.length === 0 ? <p>No pending council actions</p> : (
+        <div className="council-actions">
+          {actions.map(action => (
+            <div className="council-action-row" key={action.actionId.toString()}>
+              <div className="council-action-summary">
+                <span className="record-id">#{action.actionId.toString()}</span>
+                <span>{describeCouncilAction(action)}</span>
+                <span className={`status-badge council-${action.state}`}>{action.approvals.length}/{threshold}</span>
+              </div>
+              <div className="council-action-meta">
+                Proposed by {shortAddr(action.proposer)}{action.proposedAt ? ` on ${new Date(action.proposedAt * 1000).toLocaleString()}` : ''}
+              </div>
+              <div className="council-approvals">
+                {settings.councilMembers.map(member => {
+                  const approved = action.approvals.some(a => sameAddress(a, member));
+                  return (
+                    <span className={`approval-chip ${approved ? 'approved' : ''}`} key={member}>
+                      {approved ? '✓' : '…'} {shortAddr(member)}
+                    </span>
+                  );
+                })}
+              </div>
+              <div className="admin-actions">{renderActions(action)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { config, getTreasuryReadOnly } from '../contract';
+import type { DecryptionRequestStatus } from '../../../../src/TreasuryClient';
+import { formatAmount } from '../../../../src/amounts';
+import { formatDuration } from './TimelockQueue';
+
+interface DecryptionTrackerProps {
+  refreshKey?: number;
+}
+
+// The Sepolia oracle usually answers within a few blocks; past this we flag the request.
+const STUCK_AFTER_SECONDS = 15 * 60;
+const POLL_INTERVAL_MS = 15000;
+
+type TrackerState = "completed" | "pending" | "stuck" | "mismatch";
+
+const trackerState = (request: DecryptionRequestStatus, now: number): TrackerState => {
+  if (request.processed) return "completed";
+  if (!request.stateHashMatches) return "mismatch";
+  if (request.requestedAt && now - request.requestedAt > STUCK_AFTER_SECONDS) return "stuck";
+  return "pending";
+};
+
+const STATE_NOTES: Record<TrackerState, string> = {
+  completed: "Oracle callback verified and the total was published",
+  pending: "Waiting for the decryption oracle to call back",
+  stuck: "No callback yet. The oracle may have failed with InvalidKMSSignatures or be lagging; check the oracle transaction for this request",
+  mismatch: "The batch ciphertext changed after this request, so the callback reverts with StateMismatch. Request a new decryption"
+};
+
+export default function DecryptionTracker({ refreshKey }: DecryptionTrackerProps) {
+  const [requests, setRequests] = useState<DecryptionRequestStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      setRequests(await treasury.listDecryptionRequests(config.treasuryDeployBlock));
+    } catch (e) { console.error("Error loading decryption requests:", e); }
+    finally { setLoading(false); }
+  }, []);
+
+  useEffect(() => { loadRequests(); }, [loadRequests, refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const hasOpenRequests = requests.some(r => !r.processed);
+  useEffect(() => {
+    if (!hasOpenRequests) return;
+    const poll = setInterval(loadRequests, POLL_INTERVAL_MS);
+    return () => clearInterval(poll);
+  }, [hasOpenRequests, loadRequests]);
+
+  return (
+    <div className="decryption-section">
+      <div className="section-header">
+        <h2>Decryption Requests</h2>
+        <div className="header-actions">
+          <button onClick={loadRequests} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      <div className="tech-panel">
+        <div className="decryption-header">
+          <div className="header-cell">Request</div>
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Pending For</div>
+          <div className="header-cell">Revealed Total</div>
+        </div>
+        {requests.length === 0 && <div className="no-records"><p>No decryption requests yet</p></div>}
+        {requests.map(request => {
+          const state = trackerState(request, now);
+          const waited = request.requestedAt ? (request.completedAt ?? now) - request.requestedAt : undefined;
+          return (
+            <div className="decryption-row" key={request.requestId.toString()} title={STATE_NOTES[state]}>
+              <div className="table-cell record-id">#{request.requestId.toString()}</div>
+              <div className="table-cell">#{request.batchId.toString()}</div>
+              <div className="table-cell"><span className={`status-badge decryption-${state}`}>{state}</span></div>
+              <div className="table-cell">{waited !== undefined ? `${formatDuration(waited)}${request.processed ? " (done)" : ""}` : "-"}</div>
+              <div className="table-cell">{request.totalInvestment !== undefined ? formatAmount(request.totalInvestment) : "🔒"}</div>
+              {state !== "completed" && state !== "pending" && <div className="decryption-note">{STATE_NOTES[state]}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
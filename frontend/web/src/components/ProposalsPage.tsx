@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ZeroHash } from 'ethers';
+import { config, getTreasuryReadOnly, getTreasuryWithSigner } from '../contract';
+import { encryptVote } from '../fhevm';
+import { formatTreasuryError, explainTreasuryErrorName } from '../../../../src/treasuryErrors';
+import { tallyBlocker, voteBlocker, type ProposalSummary, type ProviderStatus, type TreasuryClient, type VoterStatus } from '../../../../src/TreasuryClient';
+import { formatAmount } from '../../../../src/amounts';
+import type { ProviderStatusState } from '../hooks/useProviderStatus';
+
+type TransactionState = "pending" | "success" | "error";
+
+interface ProposalsPageProps {
+  account?: string;
+  providerStatus: ProviderStatusState;
+  onTransactionStatus: (status: TransactionState, message: string) => void;
+  onChanged?: () => void;
+  decryptHandle?: (handle: string) => Promise<bigint | null>;
+}
+
+const POLL_INTERVAL_MS = 15000;
+const VOTING_PERIODS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86400 },
+  { label: '3 days', seconds: 3 * 86400 },
+  { label: '7 days', seconds: 7 * 86400 }
+];
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+const formatRemaining = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+};
+
+// Batches can only be voted on once closed, and only the current batch can still be open.
+const latestClosedBatch = (status: ProviderStatus) => status.currentBatchClosed ? status.currentBatchId : status.currentBatchId - 1n;
+
+export default function ProposalsPage({ account, providerStatus, onTransactionStatus, onChanged, decryptHandle }: ProposalsPageProps) {
+  const [proposals, setProposals] = useState<ProposalSummary[]>([]);
+  const [voters, setVoters] = useState<Record<string, VoterStatus>>({});
+  const [weights, setWeights] = useState<Record<string, bigint>>({});
+  const [decrypting, setDecrypting] = useState<bigint | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [form, setForm] = useState({ batchId: '', description: '', votingPeriod: VOTING_PERIODS[1].seconds });
+  const { status, chainNow } = providerStatus;
+
+  const loadProposals = useCallback(async () => {
+    setLoading(true);
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const list = await treasury.listProposals(config.treasuryDeployBlock);
+      setProposals(list);
+      if (account) {
+        const statuses = await Promise.all(list.map(p => treasury.getVoterStatus(p, account)));
+        setVoters(Object.fromEntries(list.map((p, i) => [p.proposalId.toString(), statuses[i]])));
+      } else {
+        setVoters({});
+      }
+      setWeights({});
+    } catch (e) { console.error("Error loading proposals:", e); }
+    finally { setLoading(false); }
+  }, [account]);
+
+  useEffect(() => { loadProposals(); }, [loadProposals]);
+
+  const awaitingTally = proposals.some(p => p.tally === 'requested');
+  useEffect(() => {
+    if (!awaitingTally) return;
+    const poll = setInterval(loadProposals, POLL_INTERVAL_MS);
+    return () => clearInterval(poll);
+  }, [awaitingTally, loadProposals]);
+
+  const runAction = async (pendingMessage: string, successMessage: string, action: (treasury: TreasuryClient) => Promise<unknown>, cooldownAction?: "decrypt") => {
+    setBusy(true);
+    onTransactionStatus("pending", pendingMessage);
+    let treasury: TreasuryClient | null = null;
+    try {
+      treasury = await getTreasuryWithSigner();
+      await action(treasury);
+      onTransactionStatus("success", successMessage);
+      await loadProposals();
+      onChanged?.();
+    } catch (e) {
+      onTransactionStatus("error", await formatTreasuryError(e, "Proposal action failed", treasury && account ? { client: treasury, account, action: cooldownAction } : undefined));
+    } finally { setBusy(false); }
+  };
+
+  const createProposal = () => {
+    if (!/^\d+$/.test(form.batchId) || form.batchId === '0') { alert("Please enter a valid batch number"); return; }
+    if (!form.description.trim()) { alert("Please describe the investment proposal"); return; }
+    runAction("Submitting proposal...", "Proposal created", t => t.createProposal(BigInt(form.batchId), form.description.trim(), form.votingPeriod))
+      .then(() => setForm({ ...form, batchId: '', description: '' }));
+  };
+
+  const castVote = (proposal: ProposalSummary, support: boolean) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    runAction("Encrypting vote with Zama FHE...", "Encrypted vote recorded", async t => {
+      const { handle, inputProof } = await encryptVote(config.treasuryAddress, account, support);
+      return t.castVote(proposal.proposalId, handle, inputProof);
+    });
+  };
+
+  const decryptWeight = async (proposal: ProposalSummary, handle: string) => {
+    if (!decryptHandle) return;
+    setDecrypting(proposal.proposalId);
+    try {
+      const value = await decryptHandle(handle);
+      if (value !== null) setWeights(prev => ({ ...prev, [proposal.proposalId.toString()]: value }));
+    } finally {
+      setDecrypting(null);
+    }
+  };
+
+  const renderWeight = (proposal: ProposalSummary) => {
+    const key = proposal.proposalId.toString();
+    const voter = voters[key];
+    if (!voter || voter.contribution === ZeroHash) return '—';
+    if (weights[key] !== undefined) return formatAmount(weights[key]);
+    // Before voting the weight would be the current batch contribution; after voting it is the snapshot counted in the tally.
+    const handle = voter.hasVoted ? voter.votingWeight : voter.contribution;
+    return (
+      <button className="action-btn tech-button" disabled={!decryptHandle || decrypting !== null} onClick={() => decryptWeight(proposal, handle)}>
+        {decrypting === proposal.proposalId ? 'Decrypting...' : '🔓 Decrypt'}
+      </button>
+    );
+  };
+
+  const requestTally = (proposal: ProposalSummary) =>
+    runAction("Requesting tally decryption...", "Tally decryption requested from the oracle", t => t.requestTallyDecryption(proposal.proposalId), "decrypt");
+
+  const renderActions = (proposal: ProposalSummary) => {
+    if (!status || !account) return null;
+    if (chainNow < proposal.deadline) {
+      const voter = voters[proposal.proposalId.toString()];
+      if (!voter) return null;
+      const blocker = voteBlocker(status, proposal, voter, chainNow);
+      if (blocker === 'AlreadyVoted') return <span className="status-badge closed">voted</span>;
+      const reason = blocker ? explainTreasuryErrorName(blocker).message : undefined;
+      return (
+        <>
+          <button className="tech-button success" disabled={busy || !!blocker} title={reason} onClick={() => castVote(proposal, true)}>Vote Yes</button>
+          <button className="tech-button danger" disabled={busy || !!blocker} title={reason} onClick={() => castVote(proposal, false)}>Vote No</button>
+        </>
+      );
+    }
+    if (proposal.tally === 'revealed') return null;
+    const blocker = tallyBlocker(status, proposal, chainNow);
+    const reason = blocker === 'CooldownActive' ? `Cooldown ends in ${providerStatus.decryptCooldown} s` : blocker ? explainTreasuryErrorName(blocker).message : undefined;
+    return (
+      <button className="tech-button" disabled={busy || !!blocker} title={reason} onClick={() => requestTally(proposal)}>
+        {proposal.tally === 'requested' ? 'Request Again' : 'Reveal Tally'}
+      </button>
+    );
+  };
+
+  const renderResult = (proposal: ProposalSummary) => {
+    if (proposal.tally !== 'revealed') {
+      return chainNow < proposal.deadline ? `🔒 ${formatRemaining(proposal.deadline - chainNow)} left` : proposal.tally === 'requested' ? '⏳ decrypting' : '🔒 encrypted';
+    }
+    const total = proposal.yesVotes + proposal.noVotes;
+    const outcome = proposal.yesVotes > proposal.noVotes ? 'approved' : 'rejected';
+    return (
+      <div className="proposal-result">
+        <span className={`status-badge proposal-${outcome}`}>{outcome}</span>
+        <span>{formatAmount(proposal.yesVotes)} yes / {formatAmount(proposal.noVotes)} no (weighted)</span>
+        {total > 0n && (
+          <div className="vote-bar"><div className="vote-bar-yes" style={{ width: `${Number((proposal.yesVotes * 100n) / total)}%` }}></div></div>
+        )}
+      </div>
+    );
+  };
+
+  const openCount = proposals.filter(p => chainNow < p.deadline).length;
+  const revealedCount = proposals.filter(p => p.tally === 'revealed').length;
+
+  return (
+    <div className="proposals-section">
+      <div className="section-header">
+        <h2>Joint Investment Proposals</h2>
+        <div className="header-actions">
+          <button onClick={loadProposals} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      <div className="admin-grid">
+        <div className="dashboard-panel tech-panel">
+          <h3>New Proposal</h3>
+          <div className="form-group">
+            <label>Batch *</label>
+            <input className="tech-input" type="number" min="1" step="1" value={form.batchId} onChange={e => setForm({ ...form, batchId: e.target.value })} placeholder={status && latestClosedBatch(status) > 0n ? latestClosedBatch(status).toString() : 'Closed batch #'} title="Proposals can only be made on closed batches" />
+          </div>
+          <div className="form-group">
+            <label>Description *</label>
+            <input className="tech-input" value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} placeholder="What should the batch be invested in?" />
+          </div>
+          <div className="form-group">
+            <label>Voting Period</label>
+            <select className="tech-select" value={form.votingPeriod} onChange={e => setForm({ ...form, votingPeriod: Number(e.target.value) })}>
+              {VOTING_PERIODS.map(p => <option key={p.seconds} value={p.seconds}>{p.label}</option>)}
+            </select>
+          </div>
+          <div className="admin-actions">
+            <button className="tech-button primary" onClick={createProposal} disabled={busy || !status?.isProvider}>Create Proposal</button>
+          </div>
+          <div className="privacy-notice">
+            <div className="privacy-icon"></div>
+            <p>Votes are encrypted in your browser and weighted by your encrypted contribution to the batch. Only the final tally is decrypted, after the voting deadline.</p>
+          </div>
+        </div>
+        <div className="dashboard-panel tech-panel">
+          <h3>Voting Statistics</h3>
+          <div className="stats-grid">
+            <div className="stat-item"><div className="stat-value">{proposals.length}</div><div className="stat-label">Proposals</div></div>
+            <div className="stat-item"><div className="stat-value">{openCount}</div><div className="stat-label">Voting</div></div>
+            <div className="stat-item"><div className="stat-value">{proposals.length - openCount}</div><div className="stat-label">Ended</div></div>
+            <div className="stat-item"><div className="stat-value">{revealedCount}</div><div className="stat-label">Revealed</div></div>
+          </div>
+        </div>
+      </div>
+      <div className="tech-panel proposals-list">
+        <div className="proposal-header">
+          <div className="header-cell">ID</div>
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Proposal</div>
+          <div className="header-cell">Votes</div>
+          <div className="header-cell">My Weight</div>
+          <div className="header-cell">Result</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {proposals.length === 0 && !loading && <div className="no-records"><p>No proposals yet</p></div>}
+        {proposals.map(proposal => (
+          <div className="proposal-row" key={proposal.proposalId.toString()}>
+            <div className="table-cell record-id">#{proposal.proposalId.toString()}</div>
+            <div className="table-cell">#{proposal.batchId.toString()}</div>
+            <div className="table-cell">
+              <div className="proposal-description">{proposal.description}</div>
+              <div className="proposal-meta">by {shortAddr(proposal.proposer)} · ends {new Date(proposal.deadline * 1000).toLocaleString()}</div>
+            </div>
+            <div className="table-cell">{proposal.votes.toString()}</div>
+            <div className="table-cell">{renderWeight(proposal)}</div>
+            <div className="table-cell">{renderResult(proposal)}</div>
+            <div className="table-cell actions">{renderActions(proposal)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { config, getTreasuryReadOnly, getTreasuryWithSigner } from '../contract';
+import { explainTreasuryErrorName, formatTreasuryError } from '../../../../src/treasuryErrors';
+import { operationBlocker, type TimelockedFunction, type TimelockOperation, type TreasuryClient, type TreasurySettings } from '../../../../src/TreasuryClient';
+
+type TransactionState = "pending" | "success" | "error";
+
+interface TimelockQueueProps {
+  account?: string;
+  chainNow: number;
+  refreshKey?: number;
+  onTransactionStatus: (status: TransactionState, message: string) => void;
+  onChanged?: () => void;
+}
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+};
+
+export const describeOperation = (operation: { functionName: TimelockedFunction; args: unknown[] }): string => {
+  const [arg] = operation.args;
+  switch (operation.functionName) {
+    case 'setPaused':
+      return arg ? 'Pause the treasury' : 'Unpause the treasury';
+    case 'setCooldownSeconds':
+      return `Set cooldown to ${String(arg)} s`;
+    case 'removeProvider':
+      return `Remove provider ${shortAddr(String(arg))}`;
+    case 'setTimelockDelay':
+      return `Set timelock delay to ${formatDuration(Number(arg))}`;
+    case 'addCouncilMember':
+      return `Add council member ${shortAddr(String(arg))}`;
+    case 'removeCouncilMember':
+      return `Remove council member ${shortAddr(String(arg))}`;
+    case 'setCouncilThreshold':
+      return `Require ${String(arg)} council approvals`;
+    case 'disburseBatch':
+      return `Disburse batch #${String(arg)} to ${shortAddr(String(operation.args[1]))}`;
+    default:
+      return operation.functionName;
+  }
+};
+
+export default function TimelockQueue({ account, chainNow, refreshKey, onTransactionStatus, onChanged }: TimelockQueueProps) {
+  const [operations, setOperations] = useState<TimelockOperation[]>([]);
+  const [settings, setSettings] = useState<TreasurySettings | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadOperations = useCallback(async () => {
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const [list, current] = await Promise.all([treasury.listOperations(config.treasuryDeployBlock), treasury.getSettings()]);
+      setOperations(list);
+      setSettings(current);
+    } catch (e) { console.error("Error loading timelock queue:", e); }
+  }, []);
+
+  useEffect(() => { loadOperations(); }, [loadOperations, refreshKey]);
+
+  const runAction = async (pendingMessage: string, successMessage: string, action: (treasury: TreasuryClient) => Promise<unknown>) => {
+    setBusy(true);
+    onTransactionStatus("pending", pendingMessage);
+    let treasury: TreasuryClient | null = null;
+    try {
+      treasury = await getTreasuryWithSigner();
+      await action(treasury);
+      onTransactionStatus("success", successMessage);
+      await loadOperations();
+      onChanged?.();
+    } catch (e) {
+      onTransactionStatus("error", await formatTreasuryError(e, "Timelock action failed", treasury && account ? { client: treasury, account } : undefined));
+    } finally { setBusy(false); }
+  };
+
+  // States are computed from the chain time at load; re-derive them so countdowns tick over to "ready".
+  const liveState = (operation: TimelockOperation): TimelockOperation['state'] => {
+    if (operation.state === 'executed' || operation.state === 'cancelled') return operation.state;
+    if (chainNow > operation.expiresAt) return 'expired';
+    return chainNow >= operation.eta ? 'ready' : 'queued';
+  };
+
+  const renderActions = (operation: TimelockOperation) => {
+    if (!account || !settings) return null;
+    const live = { ...operation, state: liveState(operation) };
+    const cancelBlocker = operationBlocker(settings, account, live, 'cancel');
+    if (cancelBlocker) return null;
+    const executeBlocker = operationBlocker(settings, account, live, 'execute');
+    const id = operation.operationId;
+    return (
+      <>
+        <button className="action-btn tech-button success" disabled={busy || !!executeBlocker} title={executeBlocker ? explainTreasuryErrorName(executeBlocker).message : undefined}
+          onClick={() => window.confirm(`Execute "${describeOperation(operation)}" now?`) && runAction("Executing timelocked operation...", "Operation executed", t => t.executeOperation(id))}>
+          Execute
+        </button>
+        <button className="action-btn tech-button danger" disabled={busy}
+          onClick={() => window.confirm(`Propose cancelling "${describeOperation(operation)}"? It is cancelled once the council approves.`) && runAction("Proposing cancellation...", "Cancellation proposed to the council", t => t.proposeCancelOperation(id))}>
+          Propose Cancel
+        </button>
+      </>
+    );
+  };
+
+  if (operations.length === 0) return null;
+  const pendingCount = operations.filter(o => o.state === 'queued' || o.state === 'ready').length;
+
+  return (
+    <div className="timelock-section">
+      <div className="section-header">
+        <h2>Timelocked Council Actions</h2>
+        <div className="header-actions">
+          <span className="timelock-summary">{pendingCount} pending</span>
+          <button onClick={loadOperations} className="refresh-btn tech-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+      <div className="tech-panel">
+        <div className="operation-header">
+          <div className="header-cell">ID</div>
+          <div className="header-cell">Action</div>
+          <div className="header-cell">Queued</div>
+          <div className="header-cell">Executable</div>
+          <div className="header-cell">State</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {operations.map(operation => {
+          const state = liveState(operation);
+          return (
+            <div className="operation-row" key={operation.operationId.toString()}>
+              <div className="table-cell record-id">#{operation.operationId.toString()}</div>
+              <div className="table-cell">{describeOperation(operation)}</div>
+              <div className="table-cell">{operation.queuedAt ? new Date(operation.queuedAt * 1000).toLocaleString() : '—'}</div>
+              <div className="table-cell">{state === 'queued' ? `in ${formatDuration(operation.eta - chainNow)}` : new Date(operation.eta * 1000).toLocaleString()}</div>
+              <div className="table-cell"><span className={`status-badge operation-${state}`}>{state}</span></div>
+              <div className="table-cell actions">{renderActions(operation)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers, ZeroHash } from 'ethers';
+import { getTreasuryReadOnly, getTreasuryWithSigner } from '../contract';
+import { userDecryptHandle } from '../fhevm';
+import { formatTreasuryError } from '../../../../src/treasuryErrors';
+import { formatAmount } from '../../../../src/amounts';
+
+type TransactionState = "pending" | "success" | "error";
+
+interface TokenWalletProps {
+  account: string;
+  refreshKey?: number;
+  onTransactionStatus: (status: TransactionState, message: string) => void;
+}
+
+// How long a treasury operator approval lasts before deposits need a new one.
+export const OPERATOR_APPROVAL_SECONDS = 30 * 86400;
+
+interface WalletState {
+  symbol: string;
+  tokenAddress: string;
+  balanceHandle: string;
+  approved: boolean;
+}
+
+export default function TokenWallet({ account, refreshKey, onTransactionStatus }: TokenWalletProps) {
+  const [wallet, setWallet] = useState<WalletState | null>(null);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadWallet = useCallback(async () => {
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const token = await treasury.token();
+      const [symbol, tokenAddress, balanceHandle, approved] = await Promise.all([
+        token.symbol(),
+        treasury.tokenAddress(),
+        treasury.getTokenBalance(account),
+        treasury.isTreasuryOperator(account)
+      ]);
+      setWallet({ symbol, tokenAddress, balanceHandle, approved });
+      setBalance(null);
+    } catch (e) { console.error("Error loading token balance:", e); }
+  }, [account]);
+
+  useEffect(() => { loadWallet(); }, [loadWallet, refreshKey]);
+
+  const decryptBalance = async () => {
+    if (!wallet) return;
+    setDecrypting(true);
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum!).getSigner();
+      setBalance(await userDecryptHandle(wallet.balanceHandle, wallet.tokenAddress, signer));
+    } catch (e) { console.error("Balance decryption failed:", e); }
+    finally { setDecrypting(false); }
+  };
+
+  const approveTreasury = async () => {
+    setBusy(true);
+    onTransactionStatus("pending", "Approving the treasury to pull deposits from your balance...");
+    try {
+      const treasury = await getTreasuryWithSigner();
+      await treasury.approveTreasury(Math.floor(Date.now() / 1000) + OPERATOR_APPROVAL_SECONDS);
+      onTransactionStatus("success", "Treasury approved for deposits");
+      await loadWallet();
+    } catch (e) {
+      onTransactionStatus("error", await formatTreasuryError(e, "Approval failed"));
+    } finally { setBusy(false); }
+  };
+
+  if (!wallet) return null;
+  const hasBalance = wallet.balanceHandle !== ZeroHash;
+
+  return (
+    <div className="dashboard-panel tech-panel token-wallet">
+      <h3>Confidential Balance</h3>
+      <div className="token-balance">
+        {balance !== null ? `${formatAmount(balance)} ${wallet.symbol}` : hasBalance ? `🔒 encrypted ${wallet.symbol}` : `0 ${wallet.symbol}`}
+      </div>
+      <div className="token-actions">
+        {hasBalance && (
+          <button className="action-btn tech-button" disabled={decrypting} onClick={decryptBalance}>
+            {decrypting ? 'Decrypting...' : '🔓 Decrypt'}
+          </button>
+        )}
+        {wallet.approved
+          ? <span className="status-badge active">treasury approved</span>
+          : <button className="action-btn tech-button primary" disabled={busy} onClick={approveTreasury}>Approve Treasury</button>}
+      </div>
+      <p className="token-note">Deposits move {wallet.symbol} from this balance into the pool; withdrawals return it.</p>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { LOG_PAGE_BLOCKS, TreasuryClient } from "../../../src/TreasuryClient";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -66,6 +67,18 @@ export async function getContractReadOnly() {
   }
 }
 
+export async function queryFilterPaged(contract: ethers.Contract, event: ethers.ContractEventName, fromBlock: number) {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider to query logs with");
+  const latest = await provider.getBlockNumber();
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let start = fromBlock; start <= latest; start += LOG_PAGE_BLOCKS) {
+    const end = Math.min(start + LOG_PAGE_BLOCKS - 1, latest);
+    logs.push(...await retry(() => contract.queryFilter(event, start, end)));
+  }
+  return logs;
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -81,6 +94,29 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getTreasuryReadOnly() {
+  if (!config.treasuryAddress) return null;
+  try {
+    const provider = await getTestnetProvider();
+    return new TreasuryClient(config.treasuryAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only treasury client:", error);
+    return null;
+  }
+}
+
+export async function getTreasuryWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.treasuryAddress) {
+    throw new Error("Treasury contract address is not configured");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new TreasuryClient(config.treasuryAddress, signer);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
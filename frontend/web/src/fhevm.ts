@@ -0,0 +1,112 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, type FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { MAX_AMOUNT } from "../../../src/amounts";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!window.ethereum) {
+    return Promise.reject(new Error("No injected wallet"));
+  }
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    })();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+export interface EncryptedAmount {
+  handle: string;
+  inputProof: string;
+}
+
+/** Encrypts an amount in base units (see `parseAmount`) as an `euint64` input. */
+export async function encryptAmount(contractAddress: string, userAddress: string, amount: bigint): Promise<EncryptedAmount> {
+  if (amount < 0n || amount > MAX_AMOUNT) {
+    throw new Error("Amount is outside the encrypted 64-bit range");
+  }
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add64(amount);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+export async function encryptVote(contractAddress: string, userAddress: string, support: boolean): Promise<EncryptedAmount> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.addBool(support);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const DECRYPTION_PERMIT_DAYS = 1;
+const permits = new Map<string, DecryptionPermit>();
+
+async function getDecryptionPermit(signer: ethers.Signer, contractAddresses: string[]): Promise<DecryptionPermit> {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddresses.map(a => a.toLowerCase()).sort().join(",")}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = permits.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 86400 > now + 60) {
+    return cached;
+  }
+
+  const instance = await getFhevmInstance();
+  const keypair = instance.generateKeypair();
+  const startTimestamp = now;
+  const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, DECRYPTION_PERMIT_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const permit = {
+    publicKey: keypair.publicKey,
+    privateKey: keypair.privateKey,
+    signature: signature.replace("0x", ""),
+    contractAddresses,
+    startTimestamp,
+    durationDays: DECRYPTION_PERMIT_DAYS
+  };
+  permits.set(key, permit);
+  return permit;
+}
+
+export const isCiphertextHandle = (value: string) => ethers.isHexString(value, 32);
+
+export async function userDecryptHandle(handle: string, contractAddress: string, signer: ethers.Signer): Promise<bigint> {
+  if (!isCiphertextHandle(handle)) {
+    throw new Error("Value is not a ciphertext handle");
+  }
+  const instance = await getFhevmInstance();
+  const permit = await getDecryptionPermit(signer, [contractAddress]);
+  const result = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature,
+    permit.contractAddresses,
+    await signer.getAddress(),
+    permit.startTimestamp,
+    permit.durationDays
+  );
+  const value = result[handle];
+  if (value === undefined) {
+    throw new Error("Relayer returned no cleartext for this handle");
+  }
+  return BigInt(value);
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getTreasuryReadOnly } from '../contract';
+import { submissionBlocker, type ProviderBlocker, type ProviderStatus } from '../../../../src/TreasuryClient';
+
+const localNow = () => Math.floor(Date.now() / 1000);
+
+export interface ProviderStatusState {
+  status: ProviderStatus | null;
+  /** Current chain time estimate, ticking every second. */
+  chainNow: number;
+  submitCooldown: number;
+  decryptCooldown: number;
+  submitBlocker: ProviderBlocker | null;
+  reload: () => Promise<void>;
+}
+
+export function useProviderStatus(account?: string, refreshKey?: number): ProviderStatusState {
+  const [status, setStatus] = useState<ProviderStatus | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(localNow);
+
+  const reload = useCallback(async () => {
+    if (!account) { setStatus(null); return; }
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) return;
+      const next = await treasury.getProviderStatus(account);
+      setClockOffset(next.chainTime - localNow());
+      setStatus(next);
+    } catch (e) { console.error("Error loading provider status:", e); }
+  }, [account]);
+
+  useEffect(() => { reload(); }, [reload, refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(localNow()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const chainNow = now + clockOffset;
+  return {
+    status,
+    chainNow,
+    submitCooldown: status ? Math.max(0, status.submitReadyAt - chainNow) : 0,
+    decryptCooldown: status ? Math.max(0, status.decryptReadyAt - chainNow) : 0,
+    submitBlocker: status ? submissionBlocker(status, chainNow) : null,
+    reload
+  };
+}
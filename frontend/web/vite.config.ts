@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
@@ -6,6 +6,15 @@ export default defineConfig({
   define: {
     'process.env': process.env
   },
+  resolve: {
+    // TreasuryClient and the typechain bindings live at the repository root
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../src", "../../types"]
+    }
+  },
   esbuild: {
     target: "es2022",
     supported: {
@@ -20,4 +29,4 @@ export default defineConfig({
       }
     }
   }
-});
\ No newline at end of file
+});
@@ -3,6 +3,9 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/deployments";
+import "./tasks/treasury";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
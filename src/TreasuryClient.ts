@@ -0,0 +1,1234 @@
+import { AbiCoder, ZeroHash, keccak256 } from "ethers";
+import type {
+  AddressLike,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Interface,
+  Log,
+} from "ethers";
+import { ConfidentialToken__factory, CrossDaoTreasuryFHE__factory } from "../types";
+import type { ConfidentialToken } from "../types";
+import type {
+  BatchClosedEvent,
+  BatchDisbursedEvent,
+  BatchOpenedEvent,
+  BatchSettledEvent,
+  ContributionWithdrawnEvent,
+  CooldownSecondsSetEvent,
+  CouncilActionApprovedEvent,
+  CouncilActionExecutedEvent,
+  CouncilActionProposedEvent,
+  CouncilApprovalRevokedEvent,
+  CouncilMemberAddedEvent,
+  CouncilMemberRemovedEvent,
+  CouncilThresholdSetEvent,
+  CrossDaoTreasuryFHE,
+  DecryptionCompletedEvent,
+  DecryptionFulfilledEvent,
+  DecryptionRequestedEvent,
+  FundingTargetCheckedEvent,
+  FundingTargetCheckRequestedEvent,
+  FundingTargetSetEvent,
+  InvestmentSubmittedEvent,
+  OperationCancelledEvent,
+  OperationExecutedEvent,
+  OperationQueuedEvent,
+  PauseToggledEvent,
+  PayoutClaimedEvent,
+  ProposalCreatedEvent,
+  ProviderAddedEvent,
+  ProviderRemovedEvent,
+  ReturnsDepositedEvent,
+  TallyRequestedEvent,
+  TimelockDelaySetEvent,
+  TallyRevealedEvent,
+  VoteCastEvent,
+} from "../types/contracts/Cross_DAO_Treasury.sol/CrossDaoTreasuryFHE";
+
+export interface TreasuryEventArgs {
+  ProviderAdded: ProviderAddedEvent.OutputObject;
+  ProviderRemoved: ProviderRemovedEvent.OutputObject;
+  PauseToggled: PauseToggledEvent.OutputObject;
+  CooldownSecondsSet: CooldownSecondsSetEvent.OutputObject;
+  BatchOpened: BatchOpenedEvent.OutputObject;
+  BatchClosed: BatchClosedEvent.OutputObject;
+  BatchDisbursed: BatchDisbursedEvent.OutputObject;
+  InvestmentSubmitted: InvestmentSubmittedEvent.OutputObject;
+  ContributionWithdrawn: ContributionWithdrawnEvent.OutputObject;
+  DecryptionRequested: DecryptionRequestedEvent.OutputObject;
+  DecryptionCompleted: DecryptionCompletedEvent.OutputObject;
+  DecryptionFulfilled: DecryptionFulfilledEvent.OutputObject;
+  FundingTargetSet: FundingTargetSetEvent.OutputObject;
+  FundingTargetCheckRequested: FundingTargetCheckRequestedEvent.OutputObject;
+  FundingTargetChecked: FundingTargetCheckedEvent.OutputObject;
+  ReturnsDeposited: ReturnsDepositedEvent.OutputObject;
+  BatchSettled: BatchSettledEvent.OutputObject;
+  PayoutClaimed: PayoutClaimedEvent.OutputObject;
+  ProposalCreated: ProposalCreatedEvent.OutputObject;
+  VoteCast: VoteCastEvent.OutputObject;
+  TallyRequested: TallyRequestedEvent.OutputObject;
+  TallyRevealed: TallyRevealedEvent.OutputObject;
+  OperationQueued: OperationQueuedEvent.OutputObject;
+  OperationExecuted: OperationExecutedEvent.OutputObject;
+  OperationCancelled: OperationCancelledEvent.OutputObject;
+  TimelockDelaySet: TimelockDelaySetEvent.OutputObject;
+  CouncilMemberAdded: CouncilMemberAddedEvent.OutputObject;
+  CouncilMemberRemoved: CouncilMemberRemovedEvent.OutputObject;
+  CouncilThresholdSet: CouncilThresholdSetEvent.OutputObject;
+  CouncilActionProposed: CouncilActionProposedEvent.OutputObject;
+  CouncilActionApproved: CouncilActionApprovedEvent.OutputObject;
+  CouncilApprovalRevoked: CouncilApprovalRevokedEvent.OutputObject;
+  CouncilActionExecuted: CouncilActionExecutedEvent.OutputObject;
+}
+
+export type TreasuryEventName = keyof TreasuryEventArgs;
+
+export interface TreasuryEvent<N extends TreasuryEventName = TreasuryEventName> {
+  name: N;
+  args: TreasuryEventArgs[N];
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  /** Block timestamp in seconds, filled in by `attachTimestamps`. */
+  timestamp?: number;
+}
+
+export interface TreasuryReceipt {
+  receipt: ContractTransactionReceipt;
+  events: TreasuryEvent[];
+}
+
+/** Receipt of a council proposal; the call only runs once the council executes `event.args.actionId`. */
+export type CouncilProposal = TreasuryReceipt & { event: TreasuryEvent<"CouncilActionProposed"> };
+
+export interface BatchInfo {
+  batchId: bigint;
+  closed: boolean;
+  /** Submissions still in the batch; withdrawn ones no longer count. */
+  contributions: bigint;
+  /** Chain timestamp (seconds) after which submissions are refused, 0 when the batch has no deadline. */
+  closesAt: number;
+  /** Contribution count that closes the batch, 0 when unlimited. */
+  maxContributions: bigint;
+  /** Ciphertext handle of the running total, `ZeroHash` until the first contribution. */
+  encryptedTotal: string;
+  /** Whether the pooled principal has been transferred out to the investment it was raised for. */
+  disbursed: boolean;
+  /** Whether the council has settled the deposited returns, after which contributors can claim payouts. */
+  settled: boolean;
+  fundingTarget: FundingTargetStatus;
+}
+
+/** Outcome of the encrypted funding-target comparison; the target itself is never revealed. */
+export type FundingTargetStatus = "none" | "unchecked" | "met" | "unmet";
+
+export type BatchDecryptionStatus = "none" | "requested" | "completed";
+
+export interface BatchSummary extends BatchInfo {
+  decryption: BatchDecryptionStatus;
+  /** Cleartext total published by the oracle callback, once decryption completed. */
+  revealedTotal?: bigint;
+  timeline: TreasuryEvent<BatchTimelineEventName>[];
+}
+
+export type BatchTimelineEventName =
+  | "BatchOpened"
+  | "BatchClosed"
+  | "InvestmentSubmitted"
+  | "ContributionWithdrawn"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "FundingTargetSet"
+  | "FundingTargetCheckRequested"
+  | "FundingTargetChecked"
+  | "BatchDisbursed"
+  | "ReturnsDeposited"
+  | "BatchSettled"
+  | "PayoutClaimed";
+
+const BATCH_TIMELINE_EVENTS: BatchTimelineEventName[] = [
+  "BatchOpened",
+  "BatchClosed",
+  "InvestmentSubmitted",
+  "ContributionWithdrawn",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "FundingTargetSet",
+  "FundingTargetCheckRequested",
+  "FundingTargetChecked",
+  "BatchDisbursed",
+  "ReturnsDeposited",
+  "BatchSettled",
+  "PayoutClaimed",
+];
+
+export type AdminEventName =
+  | "CouncilMemberAdded"
+  | "CouncilMemberRemoved"
+  | "CouncilThresholdSet"
+  | "ProviderAdded"
+  | "ProviderRemoved"
+  | "PauseToggled"
+  | "CooldownSecondsSet"
+  | "BatchOpened"
+  | "BatchClosed"
+  | "BatchDisbursed"
+  | "BatchSettled"
+  | "FundingTargetSet"
+  | "TimelockDelaySet";
+
+// Public RPCs reject log queries over wide block ranges, so event scans run in windows of this many blocks.
+export const LOG_PAGE_BLOCKS = 5000;
+
+const ADMIN_EVENTS: AdminEventName[] = [
+  "CouncilMemberAdded",
+  "CouncilMemberRemoved",
+  "CouncilThresholdSet",
+  "ProviderAdded",
+  "ProviderRemoved",
+  "PauseToggled",
+  "CooldownSecondsSet",
+  "BatchOpened",
+  "BatchClosed",
+  "BatchDisbursed",
+  "BatchSettled",
+  "FundingTargetSet",
+  "TimelockDelaySet",
+];
+
+export interface TreasurySettings {
+  councilMembers: string[];
+  councilThreshold: bigint;
+  paused: boolean;
+  cooldownSeconds: bigint;
+  timelockDelay: bigint;
+  currentBatchId: bigint;
+  currentBatchClosed: boolean;
+}
+
+export interface ProviderStatus {
+  account: string;
+  isProvider: boolean;
+  paused: boolean;
+  cooldownSeconds: bigint;
+  currentBatchId: bigint;
+  currentBatchClosed: boolean;
+  /** Window of the open batch; see `batchWindowElapsed`. */
+  currentBatch: BatchInfo;
+  /** Chain timestamp (seconds) from which a new submission is accepted. */
+  submitReadyAt: number;
+  /** Chain timestamp (seconds) from which a new decryption request is accepted. */
+  decryptReadyAt: number;
+  /** Latest block timestamp when the status was read. */
+  chainTime: number;
+}
+
+/** Custom error a write would revert with, predicted from `ProviderStatus`. */
+export type ProviderBlocker = "NotProvider" | "Paused" | "BatchClosedOrInvalid" | "BatchWindowElapsed" | "CooldownActive";
+
+/** Custom error `closeElapsedBatch` would revert with, predicted from the open batch. */
+export type BatchCloseBlocker = "Paused" | "BatchClosedOrInvalid" | "BatchWindowOpen";
+
+export interface DecryptionContext {
+  batchId: bigint;
+  stateHash: string;
+  processed: boolean;
+}
+
+export interface DecryptionRequestStatus {
+  requestId: bigint;
+  batchId: bigint;
+  requestedAt?: number;
+  requestTx: string;
+  processed: boolean;
+  completedAt?: number;
+  /** Cleartext total from `DecryptionCompleted`. */
+  totalInvestment?: bigint;
+  /**
+   * False when the batch ciphertext changed after the request, so the oracle
+   * callback is bound to revert with `StateMismatch`.
+   */
+  stateHashMatches: boolean;
+}
+
+export interface PayoutStatus {
+  claimed: boolean;
+  /** Handle of the claimed payout, `ZeroHash` until claimed. Decryptable by the claimant only. */
+  payout: string;
+}
+
+/** Council functions that only run through a queued, delayed operation. */
+export type TimelockedFunction =
+  | "setPaused"
+  | "setCooldownSeconds"
+  | "removeProvider"
+  | "setTimelockDelay"
+  | "addCouncilMember"
+  | "removeCouncilMember"
+  | "setCouncilThreshold"
+  | "disburseBatch";
+
+export type OperationState = "queued" | "ready" | "expired" | "executed" | "cancelled";
+
+export interface TimelockOperation {
+  operationId: bigint;
+  /** Raw calldata executed against the treasury. */
+  data: string;
+  functionName: TimelockedFunction;
+  args: unknown[];
+  /** Chain timestamp (seconds) from which the operation can be executed. */
+  eta: number;
+  /** Chain timestamp (seconds) after which the operation can no longer be executed. */
+  expiresAt: number;
+  state: OperationState;
+  queuedAt?: number;
+}
+
+/** Custom error executing or cancelling an operation would revert with, predicted from its state. */
+export type OperationBlocker = "NotCouncilMember" | "OperationNotPending" | "TimelockNotReady" | "OperationExpired";
+
+/** Functions a council action may call; the timelocked ones are reached through `queueOperation`. */
+export type CouncilFunction =
+  | "addProvider"
+  | "openNewBatch"
+  | "closeCurrentBatch"
+  | "settleBatch"
+  | "setFundingTarget"
+  | "queueOperation"
+  | "cancelOperation";
+
+/** "approved" once enough current members approved, until someone executes it. */
+export type CouncilActionState = "pending" | "approved" | "executed";
+
+export interface CouncilAction {
+  actionId: bigint;
+  /** Raw calldata executed against the treasury. */
+  data: string;
+  functionName: CouncilFunction;
+  args: unknown[];
+  /** The call a `queueOperation` action would queue. */
+  operation?: { functionName: TimelockedFunction; args: unknown[] };
+  proposer: string;
+  /** Current council members that approved the action, in council order. */
+  approvals: string[];
+  state: CouncilActionState;
+  proposedAt?: number;
+}
+
+/** Custom error approving, revoking or executing a council action would revert with. */
+export type CouncilActionBlocker =
+  | "NotCouncilMember"
+  | "CouncilActionNotPending"
+  | "AlreadyApproved"
+  | "NotApproved"
+  | "ThresholdNotMet";
+
+/** Custom error a payout claim would revert with, predicted from the batch and payout state. */
+export type PayoutBlocker = "Paused" | "NotSettled" | "AlreadyClaimed" | "NotInitialized";
+
+export type ProposalTallyStatus = "none" | "requested" | "revealed";
+
+export interface ProposalInfo {
+  proposalId: bigint;
+  batchId: bigint;
+  proposer: string;
+  /** Whether the proposal's batch is closed; `createProposal` only accepts closed batches, so votes never wait on it. */
+  batchClosed: boolean;
+  /** Chain timestamp (seconds) at which voting ends. */
+  deadline: number;
+  description: string;
+  votes: bigint;
+  tallyRevealed: boolean;
+  /** Contribution-weighted cleartext tallies, only meaningful once `tallyRevealed` is set. */
+  yesVotes: bigint;
+  noVotes: bigint;
+}
+
+export interface ProposalSummary extends ProposalInfo {
+  tally: ProposalTallyStatus;
+  createdAt?: number;
+}
+
+export interface VoterStatus {
+  hasVoted: boolean;
+  /** Handle of the voter's contribution to the proposal's batch, `ZeroHash` if it has none. */
+  contribution: string;
+  /** Weight snapshot counted in the tally, `ZeroHash` until the voter has voted. Decryptable by the voter only. */
+  votingWeight: string;
+}
+
+/** Custom error a vote or tally request would revert with, predicted from the proposal state. */
+export type ProposalBlocker =
+  | ProviderBlocker
+  | "VotingClosed"
+  | "VotingOpen"
+  | "AlreadyVoted"
+  | "TallyAlreadyRevealed"
+  | "NoVotingPower";
+
+/**
+ * Typed wrapper around CrossDaoTreasuryFHE shared by the deploy scripts, the
+ * Hardhat tests and the web frontend.
+ */
+export class TreasuryClient {
+  readonly contract: CrossDaoTreasuryFHE;
+  private readonly blockTimestamps = new Map<number, number>();
+  private tokenContract?: Promise<ConfidentialToken>;
+
+  constructor(address: string, runner: ContractRunner | null) {
+    this.contract = CrossDaoTreasuryFHE__factory.connect(address, runner);
+  }
+
+  connect(runner: ContractRunner | null): TreasuryClient {
+    return new TreasuryClient(this.address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Administration
+  // ---------------------------------------------------------------------------
+
+  async getCouncilMembers(): Promise<string[]> {
+    return [...(await this.contract.getCouncilMembers())];
+  }
+
+  councilThreshold(): Promise<bigint> {
+    return this.contract.councilThreshold();
+  }
+
+  isCouncilMember(account: AddressLike): Promise<boolean> {
+    return this.contract.isCouncilMember(account);
+  }
+
+  paused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  cooldownSeconds(): Promise<bigint> {
+    return this.contract.cooldownSeconds();
+  }
+
+  timelockDelay(): Promise<bigint> {
+    return this.contract.timelockDelay();
+  }
+
+  async getSettings(): Promise<TreasurySettings> {
+    const [councilMembers, councilThreshold, paused, cooldownSeconds, timelockDelay, currentBatchId] =
+      await Promise.all([
+        this.getCouncilMembers(),
+        this.councilThreshold(),
+        this.paused(),
+        this.cooldownSeconds(),
+        this.timelockDelay(),
+        this.currentBatchId(),
+      ]);
+    const currentBatchClosed = await this.contract.batchClosed(currentBatchId);
+    return {
+      councilMembers,
+      councilThreshold,
+      paused,
+      cooldownSeconds,
+      timelockDelay,
+      currentBatchId,
+      currentBatchClosed,
+    };
+  }
+
+  /** Council-side changes (membership, providers, pause, cooldown, batches), newest first. */
+  async adminHistory(fromBlock?: number): Promise<TreasuryEvent<AdminEventName>[]> {
+    const events = await this.attachTimestamps(sortEvents(await this.queryEvents(ADMIN_EVENTS, fromBlock)));
+    return events.reverse();
+  }
+
+  queueSetPaused(paused: boolean): Promise<CouncilProposal> {
+    return this.queueOperation("setPaused", [paused]);
+  }
+
+  queueSetCooldownSeconds(seconds: BigNumberish): Promise<CouncilProposal> {
+    return this.queueOperation("setCooldownSeconds", [seconds]);
+  }
+
+  queueSetTimelockDelay(seconds: BigNumberish): Promise<CouncilProposal> {
+    return this.queueOperation("setTimelockDelay", [seconds]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Council
+  // ---------------------------------------------------------------------------
+
+  /** Proposes a call to a council-gated function; the proposer's approval is recorded with it. */
+  async proposeCouncilAction(functionName: CouncilFunction, args: unknown[]): Promise<CouncilProposal> {
+    const data = (this.contract.interface as Interface).encodeFunctionData(functionName, args);
+    const result = await this.send(this.contract.proposeCouncilAction(data));
+    return { ...result, event: requireEvent(result, "CouncilActionProposed") };
+  }
+
+  async approveCouncilAction(
+    actionId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"CouncilActionApproved"> }> {
+    const result = await this.send(this.contract.approveCouncilAction(actionId));
+    return { ...result, event: requireEvent(result, "CouncilActionApproved") };
+  }
+
+  async revokeCouncilApproval(
+    actionId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"CouncilApprovalRevoked"> }> {
+    const result = await this.send(this.contract.revokeCouncilApproval(actionId));
+    return { ...result, event: requireEvent(result, "CouncilApprovalRevoked") };
+  }
+
+  /** Runs an action that reached the threshold; the receipt also carries the events of the executed call. */
+  async executeCouncilAction(
+    actionId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"CouncilActionExecuted"> }> {
+    const result = await this.send(this.contract.executeCouncilAction(actionId));
+    return { ...result, event: requireEvent(result, "CouncilActionExecuted") };
+  }
+
+  queueAddCouncilMember(member: string): Promise<CouncilProposal> {
+    return this.queueOperation("addCouncilMember", [member]);
+  }
+
+  queueRemoveCouncilMember(member: string): Promise<CouncilProposal> {
+    return this.queueOperation("removeCouncilMember", [member]);
+  }
+
+  queueSetCouncilThreshold(threshold: BigNumberish): Promise<CouncilProposal> {
+    return this.queueOperation("setCouncilThreshold", [threshold]);
+  }
+
+  /** Pass `council` when listing many actions to read the membership only once. */
+  async getCouncilAction(
+    actionId: BigNumberish,
+    council?: { members: string[]; threshold: bigint },
+  ): Promise<CouncilAction> {
+    const [[data, proposer, executed], members, threshold] = await Promise.all([
+      this.contract.councilActions(actionId),
+      council?.members ?? this.getCouncilMembers(),
+      council?.threshold ?? this.councilThreshold(),
+    ]);
+    const approved = await Promise.all(members.map((member) => this.contract.hasApprovedAction(actionId, member)));
+    const approvals = members.filter((_, i) => approved[i]);
+    const call = this.decodeCall(data);
+    const inner = call.functionName === "queueOperation" ? this.decodeCall(call.args[0] as string) : undefined;
+    return {
+      actionId: BigInt(actionId),
+      data,
+      functionName: call.functionName as CouncilFunction,
+      args: call.args,
+      operation: inner && { functionName: inner.functionName as TimelockedFunction, args: inner.args },
+      proposer,
+      approvals,
+      state: executed ? "executed" : approvals.length >= Number(threshold) ? "approved" : "pending",
+    };
+  }
+
+  /** Lists every council action with the members that approved it, newest first. */
+  async listCouncilActions(fromBlock?: number): Promise<CouncilAction[]> {
+    const [count, proposed, members, threshold] = await Promise.all([
+      this.contract.councilActionCount(),
+      this.queryEvents("CouncilActionProposed", fromBlock).then((events) => this.attachTimestamps(events)),
+      this.getCouncilMembers(),
+      this.councilThreshold(),
+    ]);
+    const actions = await Promise.all(
+      Array.from({ length: Number(count) }, (_, i) => this.getCouncilAction(i + 1, { members, threshold })),
+    );
+    return actions
+      .map((action) => ({
+        ...action,
+        proposedAt: proposed.find((event) => event.args.actionId === action.actionId)?.timestamp,
+      }))
+      .reverse();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Timelock
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Proposes queueing a call to a timelocked function. Once the council executes the
+   * proposal, the operation becomes executable after `timelockDelay`.
+   */
+  queueOperation(functionName: TimelockedFunction, args: unknown[]): Promise<CouncilProposal> {
+    const data = (this.contract.interface as Interface).encodeFunctionData(functionName, args);
+    return this.proposeCouncilAction("queueOperation", [data]);
+  }
+
+  async executeOperation(
+    operationId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"OperationExecuted"> }> {
+    const result = await this.send(this.contract.executeOperation(operationId));
+    return { ...result, event: requireEvent(result, "OperationExecuted") };
+  }
+
+  proposeCancelOperation(operationId: BigNumberish): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("cancelOperation", [operationId]);
+  }
+
+  async getOperation(operationId: BigNumberish, now?: number): Promise<TimelockOperation> {
+    const [[data, eta, executed, cancelled], gracePeriod, block] = await Promise.all([
+      this.contract.operations(operationId),
+      this.contract.TIMELOCK_GRACE_PERIOD(),
+      now === undefined ? this.contract.runner?.provider?.getBlock("latest") : undefined,
+    ]);
+    const call = this.decodeCall(data);
+    const chainNow = now ?? block?.timestamp ?? Math.floor(Date.now() / 1000);
+    const expiresAt = Number(eta + gracePeriod);
+    return {
+      operationId: BigInt(operationId),
+      data,
+      functionName: call.functionName as TimelockedFunction,
+      args: call.args,
+      eta: Number(eta),
+      expiresAt,
+      state: executed
+        ? "executed"
+        : cancelled
+          ? "cancelled"
+          : chainNow > expiresAt
+            ? "expired"
+            : chainNow >= Number(eta)
+              ? "ready"
+              : "queued",
+    };
+  }
+
+  /** Lists every queued operation with its state, newest first. Visible to anyone, not just the council. */
+  async listOperations(fromBlock?: number): Promise<TimelockOperation[]> {
+    const [count, queued, block] = await Promise.all([
+      this.contract.operationCount(),
+      this.queryEvents("OperationQueued", fromBlock).then((events) => this.attachTimestamps(events)),
+      this.contract.runner?.provider?.getBlock("latest"),
+    ]);
+    const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+    const operations = await Promise.all(
+      Array.from({ length: Number(count) }, (_, i) => this.getOperation(i + 1, now)),
+    );
+    return operations
+      .map((operation) => ({
+        ...operation,
+        queuedAt: queued.find((event) => event.args.operationId === operation.operationId)?.timestamp,
+      }))
+      .reverse();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Providers
+  // ---------------------------------------------------------------------------
+
+  isProvider(account: AddressLike): Promise<boolean> {
+    return this.contract.isProvider(account);
+  }
+
+  proposeAddProvider(provider: string): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("addProvider", [provider]);
+  }
+
+  queueRemoveProvider(provider: string): Promise<CouncilProposal> {
+    return this.queueOperation("removeProvider", [provider]);
+  }
+
+  async getProviderStatus(account: string): Promise<ProviderStatus> {
+    const provider = this.contract.runner?.provider;
+    const settings = await this.getSettings();
+    const [currentBatch, isProvider, lastSubmission, lastDecryption, block] = await Promise.all([
+      this.getBatch(settings.currentBatchId),
+      this.isProvider(account),
+      this.lastSubmissionTime(account),
+      this.lastDecryptionRequestTime(account),
+      provider?.getBlock("latest"),
+    ]);
+    return {
+      account,
+      isProvider,
+      paused: settings.paused,
+      cooldownSeconds: settings.cooldownSeconds,
+      currentBatchId: settings.currentBatchId,
+      currentBatchClosed: settings.currentBatchClosed,
+      currentBatch,
+      submitReadyAt: Number(lastSubmission + settings.cooldownSeconds),
+      decryptReadyAt: Number(lastDecryption + settings.cooldownSeconds),
+      chainTime: block?.timestamp ?? Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /** Reads the provider's state and reports why `submitEncryptedInvestment` would revert, if it would. */
+  async preflightSubmission(account: string): Promise<ProviderBlocker | null> {
+    return submissionBlocker(await this.getProviderStatus(account));
+  }
+
+  lastSubmissionTime(provider: AddressLike): Promise<bigint> {
+    return this.contract.lastSubmissionTime(provider);
+  }
+
+  lastDecryptionRequestTime(provider: AddressLike): Promise<bigint> {
+    return this.contract.lastDecryptionRequestTime(provider);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Batches and submissions
+  // ---------------------------------------------------------------------------
+
+  /** Fixed-point decimals of encrypted amounts; should equal `AMOUNT_DECIMALS` in `amounts.ts`. */
+  async amountDecimals(): Promise<number> {
+    return Number(await this.contract.AMOUNT_DECIMALS());
+  }
+
+  currentBatchId(): Promise<bigint> {
+    return this.contract.currentBatchId();
+  }
+
+  async getBatch(batchId: BigNumberish): Promise<BatchInfo> {
+    const [
+      closed,
+      contributions,
+      closesAt,
+      maxContributions,
+      encryptedTotal,
+      disbursed,
+      settled,
+      target,
+      checked,
+      reached,
+    ] = await Promise.all([
+      this.contract.batchClosed(batchId),
+      this.contract.numContributionsInBatch(batchId),
+      this.contract.batchClosesAt(batchId),
+      this.contract.batchMaxContributions(batchId),
+      this.contract.encryptedTotalInvestment(batchId),
+      this.contract.batchDisbursed(batchId),
+      this.contract.batchSettled(batchId),
+      this.contract.encryptedFundingTarget(batchId),
+      this.contract.fundingTargetChecked(batchId),
+      this.contract.fundingTargetReached(batchId),
+    ]);
+    return {
+      batchId: BigInt(batchId),
+      closed,
+      contributions,
+      closesAt: Number(closesAt),
+      maxContributions,
+      encryptedTotal,
+      disbursed,
+      settled,
+      fundingTarget: target === ZeroHash ? "none" : !checked ? "unchecked" : reached ? "met" : "unmet",
+    };
+  }
+
+  /**
+   * Ciphertext handle of `provider`'s summed contributions to a batch, `ZeroHash`
+   * if it never contributed. Only that provider is ACL-granted to decrypt it.
+   */
+  getContribution(batchId: BigNumberish, provider: AddressLike): Promise<string> {
+    return this.contract.encryptedContributions(batchId, provider);
+  }
+
+  /**
+   * Lists every batch from 1 to `currentBatchId` with its lifecycle timeline,
+   * oldest first.
+   */
+  async listBatches(fromBlock?: number): Promise<BatchSummary[]> {
+    const current = await this.currentBatchId();
+    const [infos, events] = await Promise.all([
+      Promise.all(Array.from({ length: Number(current) }, (_, i) => this.getBatch(i + 1))),
+      this.queryEvents(BATCH_TIMELINE_EVENTS, fromBlock),
+    ]);
+    const timeline = await this.attachTimestamps(sortEvents(events));
+
+    return infos.map((info) => {
+      const events = timeline.filter((event) => event.args.batchId === info.batchId);
+      const completed = events.filter(isEvent("DecryptionCompleted")).pop();
+      const requested = events.some((event) => event.name === "DecryptionRequested");
+      return {
+        ...info,
+        decryption: completed ? "completed" : requested ? "requested" : "none",
+        revealedTotal: completed?.args.totalInvestment,
+        timeline: events,
+      };
+    });
+  }
+
+  /**
+   * Proposes opening the next batch. It stops taking submissions at `closesAt` (chain
+   * seconds) or after `maxContributions` submissions; pass 0 to leave either unbounded.
+   */
+  proposeOpenNewBatch(closesAt: BigNumberish = 0, maxContributions: BigNumberish = 0): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("openNewBatch", [closesAt, maxContributions]);
+  }
+
+  proposeCloseCurrentBatch(): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("closeCurrentBatch", []);
+  }
+
+  /** Closes the open batch once its deadline or contribution cap is reached; callable by anyone. */
+  async closeElapsedBatch(): Promise<TreasuryReceipt & { event: TreasuryEvent<"BatchClosed"> }> {
+    const result = await this.send(this.contract.closeElapsedBatch());
+    return { ...result, event: requireEvent(result, "BatchClosed") };
+  }
+
+  async submitEncryptedInvestment(
+    handle: BytesLike,
+    inputProof: BytesLike,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"InvestmentSubmitted"> }> {
+    const result = await this.send(this.contract.submitEncryptedInvestment(handle, inputProof));
+    return { ...result, event: requireEvent(result, "InvestmentSubmitted") };
+  }
+
+  /** Returns the caller's whole contribution to the open batch; resolves with the returned amount's handle. */
+  async withdrawContribution(): Promise<TreasuryReceipt & { event: TreasuryEvent<"ContributionWithdrawn"> }> {
+    const result = await this.send(this.contract.withdrawContribution());
+    return { ...result, event: requireEvent(result, "ContributionWithdrawn") };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Settlement
+  // ---------------------------------------------------------------------------
+
+  /** Queues transferring a closed batch's pooled principal to `recipient` behind the timelock. */
+  queueDisburseBatch(batchId: BigNumberish, recipient: string): Promise<CouncilProposal> {
+    return this.queueOperation("disburseBatch", [batchId, recipient]);
+  }
+
+  /**
+   * Pays an encrypted returned amount (from `add64`) into a batch whose total has been
+   * revealed. Anyone may pay in; the treasury must be an operator of the caller's tokens.
+   */
+  async depositReturns(
+    batchId: BigNumberish,
+    handle: BytesLike,
+    inputProof: BytesLike,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"ReturnsDeposited"> }> {
+    const result = await this.send(this.contract.depositReturns(batchId, handle, inputProof));
+    return { ...result, event: requireEvent(result, "ReturnsDeposited") };
+  }
+
+  /** Proposes freezing the deposited returns so contributors can claim. */
+  proposeSettleBatch(batchId: BigNumberish): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("settleBatch", [batchId]);
+  }
+
+  /**
+   * Proposes a minimum raise for an open batch. The council runs the call from the
+   * treasury itself, so encrypt the target with the treasury address as both contract and user.
+   */
+  proposeSetFundingTarget(batchId: BigNumberish, handle: BytesLike, inputProof: BytesLike): Promise<CouncilProposal> {
+    return this.proposeCouncilAction("setFundingTarget", [batchId, handle, inputProof]);
+  }
+
+  /** Transfers the caller's pro-rata share of a settled batch's returns. */
+  async claimPayout(batchId: BigNumberish): Promise<TreasuryReceipt & { event: TreasuryEvent<"PayoutClaimed"> }> {
+    const result = await this.send(this.contract.claimPayout(batchId));
+    return { ...result, event: requireEvent(result, "PayoutClaimed") };
+  }
+
+  async getPayoutStatus(batchId: BigNumberish, account: AddressLike): Promise<PayoutStatus> {
+    const [claimed, payout] = await Promise.all([
+      this.contract.hasClaimed(batchId, account),
+      this.contract.encryptedPayouts(batchId, account),
+    ]);
+    return { claimed, payout };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token custody
+  // ---------------------------------------------------------------------------
+
+  /** The confidential token the pool is held in, connected with this client's runner. */
+  token(): Promise<ConfidentialToken> {
+    this.tokenContract ??= this.contract
+      .token()
+      .then((address) => ConfidentialToken__factory.connect(address, this.contract.runner));
+    return this.tokenContract;
+  }
+
+  async tokenAddress(): Promise<string> {
+    return (await this.token()).getAddress();
+  }
+
+  /** Handle of `account`'s encrypted token balance, `ZeroHash` if it never held any. Decrypt against the token address. */
+  async getTokenBalance(account: AddressLike): Promise<string> {
+    return (await this.token()).confidentialBalanceOf(account);
+  }
+
+  /** Whether the treasury may currently pull `account`'s tokens, which every deposit requires. */
+  async isTreasuryOperator(account: AddressLike): Promise<boolean> {
+    return (await this.token()).isOperator(account, this.address);
+  }
+
+  /** Makes the treasury an operator of the caller's tokens until the `until` timestamp (seconds). */
+  async approveTreasury(until: number): Promise<TreasuryReceipt> {
+    return this.send((await this.token()).setOperator(this.address, until));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Decryption requests
+  // ---------------------------------------------------------------------------
+
+  async requestBatchTotalDecryption(
+    batchId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"DecryptionRequested"> }> {
+    const result = await this.send(this.contract.requestBatchTotalDecryption(batchId));
+    return { ...result, event: requireEvent(result, "DecryptionRequested") };
+  }
+
+  /** Asks the oracle whether a closed batch reached its funding target, without revealing either amount. */
+  async requestFundingTargetCheck(
+    batchId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"FundingTargetCheckRequested"> }> {
+    const result = await this.send(this.contract.requestFundingTargetCheck(batchId));
+    return { ...result, event: requireEvent(result, "FundingTargetCheckRequested") };
+  }
+
+  async getDecryptionContext(requestId: BigNumberish): Promise<DecryptionContext> {
+    const [batchId, stateHash, processed] = await this.contract.decryptionContexts(requestId);
+    return { batchId, stateHash, processed };
+  }
+
+  /** Mirrors the contract's `_hashCiphertexts` for the batch's current total. */
+  async currentStateHash(batchId: BigNumberish): Promise<string> {
+    const handle = await this.contract.encryptedTotalInvestment(batchId);
+    return keccak256(AbiCoder.defaultAbiCoder().encode(["bytes32[]", "address"], [[handle], this.address]));
+  }
+
+  /** Follows every `DecryptionRequested` through its context and `DecryptionCompleted`, newest first. */
+  async listDecryptionRequests(fromBlock?: number): Promise<DecryptionRequestStatus[]> {
+    const [requested, completed] = await Promise.all([
+      this.queryEvents("DecryptionRequested", fromBlock).then((events) => this.attachTimestamps(events)),
+      this.queryEvents("DecryptionCompleted", fromBlock).then((events) => this.attachTimestamps(events)),
+    ]);
+    const statuses = await Promise.all(
+      requested.map(async (event) => {
+        const { requestId, batchId } = event.args;
+        const [context, stateHash] = await Promise.all([
+          this.getDecryptionContext(requestId),
+          this.currentStateHash(batchId),
+        ]);
+        const done = completed.find((c) => c.args.requestId === requestId);
+        return {
+          requestId,
+          batchId,
+          requestedAt: event.timestamp,
+          requestTx: event.transactionHash,
+          processed: context.processed,
+          completedAt: done?.timestamp,
+          totalInvestment: done?.args.totalInvestment,
+          stateHashMatches: context.stateHash === stateHash,
+        };
+      }),
+    );
+    return statuses.reverse();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Proposals and voting
+  // ---------------------------------------------------------------------------
+
+  proposalCount(): Promise<bigint> {
+    return this.contract.proposalCount();
+  }
+
+  async getProposal(proposalId: BigNumberish): Promise<ProposalInfo> {
+    const [proposal, votes] = await Promise.all([
+      this.contract.proposals(proposalId),
+      this.contract.numVotes(proposalId),
+    ]);
+    const [batchId, proposer, deadline, description, tallyRevealed, yesVotes, noVotes] = proposal;
+    return {
+      proposalId: BigInt(proposalId),
+      batchId,
+      proposer,
+      batchClosed: await this.contract.batchClosed(batchId),
+      deadline: Number(deadline),
+      description,
+      votes,
+      tallyRevealed,
+      yesVotes,
+      noVotes,
+    };
+  }
+
+  /** Lists every proposal with its tally state, newest first. */
+  async listProposals(fromBlock?: number): Promise<ProposalSummary[]> {
+    const count = await this.proposalCount();
+    const [infos, created, requested] = await Promise.all([
+      Promise.all(Array.from({ length: Number(count) }, (_, i) => this.getProposal(i + 1))),
+      this.queryEvents("ProposalCreated", fromBlock).then((events) => this.attachTimestamps(events)),
+      this.queryEvents("TallyRequested", fromBlock),
+    ]);
+    return infos
+      .map((info) => ({
+        ...info,
+        tally: (info.tallyRevealed
+          ? "revealed"
+          : requested.some((event) => event.args.proposalId === info.proposalId)
+            ? "requested"
+            : "none") as ProposalTallyStatus,
+        createdAt: created.find((event) => event.args.proposalId === info.proposalId)?.timestamp,
+      }))
+      .reverse();
+  }
+
+  hasVoted(proposalId: BigNumberish, voter: AddressLike): Promise<boolean> {
+    return this.contract.hasVoted(proposalId, voter);
+  }
+
+  async getVoterStatus(proposal: ProposalInfo, voter: AddressLike): Promise<VoterStatus> {
+    const [hasVoted, contribution, votingWeight] = await Promise.all([
+      this.hasVoted(proposal.proposalId, voter),
+      this.getContribution(proposal.batchId, voter),
+      this.contract.encryptedVotingWeight(proposal.proposalId, voter),
+    ]);
+    return { hasVoted, contribution, votingWeight };
+  }
+
+  async createProposal(
+    batchId: BigNumberish,
+    description: string,
+    votingPeriodSeconds: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"ProposalCreated"> }> {
+    const result = await this.send(this.contract.createProposal(batchId, description, votingPeriodSeconds));
+    return { ...result, event: requireEvent(result, "ProposalCreated") };
+  }
+
+  /**
+   * Casts an encrypted yes (`true`) / no (`false`) vote produced with `addBool`,
+   * weighted by the voter's encrypted contribution to the proposal's batch.
+   */
+  async castVote(
+    proposalId: BigNumberish,
+    encryptedSupport: BytesLike,
+    inputProof: BytesLike,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"VoteCast"> }> {
+    const result = await this.send(this.contract.castVote(proposalId, encryptedSupport, inputProof));
+    return { ...result, event: requireEvent(result, "VoteCast") };
+  }
+
+  async requestTallyDecryption(
+    proposalId: BigNumberish,
+  ): Promise<TreasuryReceipt & { event: TreasuryEvent<"TallyRequested"> }> {
+    const result = await this.send(this.contract.requestTallyDecryption(proposalId));
+    return { ...result, event: requireEvent(result, "TallyRequested") };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Reads the treasury's events of one or more types in `LOG_PAGE_BLOCKS` windows, with a
+   * single address-scoped query per window that matches any of the event topics.
+   */
+  async queryEvents<N extends TreasuryEventName>(
+    names: N | N[],
+    fromBlock = 0,
+    toBlock?: number,
+  ): Promise<TreasuryEvent<N>[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("TreasuryClient needs a provider to query events");
+    const wanted: string[] = Array.isArray(names) ? names : [names];
+    const topics = wanted.map((name) => (this.contract.interface as Interface).getEvent(name)!.topicHash);
+    const latest = toBlock ?? (await provider.getBlockNumber());
+    const logs: Log[] = [];
+    for (let start = fromBlock; start <= latest; start += LOG_PAGE_BLOCKS) {
+      const end = Math.min(start + LOG_PAGE_BLOCKS - 1, latest);
+      const filter = { address: this.address, topics: [topics], fromBlock: start, toBlock: end };
+      logs.push(...(await provider.getLogs(filter)));
+    }
+    return logs
+      .map((log) => this.parseLog(log))
+      .filter((event): event is TreasuryEvent<N> => event !== null && wanted.includes(event.name));
+  }
+
+  /** Fills in `timestamp` on each event, fetching every block at most once. */
+  async attachTimestamps<E extends TreasuryEvent>(events: E[]): Promise<E[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("TreasuryClient needs a provider to read block timestamps");
+    const missing = [...new Set(events.map((e) => e.blockNumber))].filter((n) => !this.blockTimestamps.has(n));
+    await Promise.all(
+      missing.map(async (blockNumber) => {
+        const block = await provider.getBlock(blockNumber);
+        if (block) this.blockTimestamps.set(blockNumber, block.timestamp);
+      }),
+    );
+    return events.map((event) => ({ ...event, timestamp: this.blockTimestamps.get(event.blockNumber) }));
+  }
+
+  parseLog(log: Log): TreasuryEvent | null {
+    let parsed;
+    try {
+      parsed = this.contract.interface.parseLog(log);
+    } catch {
+      return null;
+    }
+    if (!parsed) return null;
+    return {
+      name: parsed.name as TreasuryEventName,
+      args: parsed.args.toObject() as TreasuryEventArgs[TreasuryEventName],
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+
+  private decodeCall(data: string): { functionName: string; args: unknown[] } {
+    const call = this.contract.interface.parseTransaction({ data });
+    return { functionName: call?.name ?? data.slice(0, 10), args: call ? [...call.args] : [] };
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<TreasuryReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`);
+    const events = receipt.logs
+      .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+      .map((log) => this.parseLog(log))
+      .filter((event): event is TreasuryEvent => event !== null);
+    return { receipt, events };
+  }
+}
+
+export function submissionBlocker(status: ProviderStatus, now = status.chainTime): ProviderBlocker | null {
+  if (!status.isProvider) return "NotProvider";
+  if (status.paused) return "Paused";
+  if (status.currentBatchClosed) return "BatchClosedOrInvalid";
+  if (batchWindowElapsed(status.currentBatch, now)) return "BatchWindowElapsed";
+  if (now < status.submitReadyAt) return "CooldownActive";
+  return null;
+}
+
+/** Mirrors the contract's `batchWindowElapsed`: the deadline has passed or the contribution cap is reached. */
+export function batchWindowElapsed(batch: BatchInfo, now: number): boolean {
+  return (
+    (batch.closesAt !== 0 && now >= batch.closesAt) ||
+    (batch.maxContributions !== 0n && batch.contributions >= batch.maxContributions)
+  );
+}
+
+export function batchCloseBlocker(paused: boolean, batch: BatchInfo, now: number): BatchCloseBlocker | null {
+  if (paused) return "Paused";
+  if (batch.closed) return "BatchClosedOrInvalid";
+  if (!batchWindowElapsed(batch, now)) return "BatchWindowOpen";
+  return null;
+}
+
+export function decryptionBlocker(
+  status: ProviderStatus,
+  batch: BatchInfo,
+  now = status.chainTime,
+): ProviderBlocker | null {
+  if (!status.isProvider) return "NotProvider";
+  if (status.paused) return "Paused";
+  if (!batch.closed) return "BatchClosedOrInvalid";
+  if (now < status.decryptReadyAt) return "CooldownActive";
+  return null;
+}
+
+export function targetCheckBlocker(
+  status: ProviderStatus,
+  batch: BatchInfo,
+  now = status.chainTime,
+): ProviderBlocker | "NotInitialized" | "TargetAlreadyChecked" | null {
+  const blocker = decryptionBlocker(status, batch, now);
+  if (blocker) return blocker;
+  if (batch.fundingTarget === "none" || batch.encryptedTotal === ZeroHash) return "NotInitialized";
+  if (batch.fundingTarget !== "unchecked") return "TargetAlreadyChecked";
+  return null;
+}
+
+export function isCouncilMember(settings: TreasurySettings, account: string): boolean {
+  return includesAddress(settings.councilMembers, account);
+}
+
+/** Cancelling goes through a council action, so "cancel" only checks that one can still be proposed. */
+export function operationBlocker(
+  settings: TreasurySettings,
+  account: string,
+  operation: TimelockOperation,
+  action: "execute" | "cancel",
+): OperationBlocker | null {
+  if (!isCouncilMember(settings, account)) return "NotCouncilMember";
+  if (operation.state === "executed" || operation.state === "cancelled") return "OperationNotPending";
+  if (action === "cancel") return null;
+  if (operation.state === "queued") return "TimelockNotReady";
+  if (operation.state === "expired") return "OperationExpired";
+  return null;
+}
+
+export function councilActionBlocker(
+  settings: TreasurySettings,
+  account: string,
+  action: CouncilAction,
+  step: "approve" | "revoke" | "execute",
+): CouncilActionBlocker | null {
+  if (!isCouncilMember(settings, account)) return "NotCouncilMember";
+  if (action.state === "executed") return "CouncilActionNotPending";
+  const approved = includesAddress(action.approvals, account);
+  if (step === "approve") return approved ? "AlreadyApproved" : null;
+  if (step === "revoke") return approved ? null : "NotApproved";
+  return action.state === "approved" ? null : "ThresholdNotMet";
+}
+
+export function payoutBlocker(
+  status: ProviderStatus,
+  batch: BatchInfo,
+  payout: PayoutStatus,
+  contribution: string,
+): PayoutBlocker | null {
+  if (status.paused) return "Paused";
+  if (!batch.settled) return "NotSettled";
+  if (payout.claimed) return "AlreadyClaimed";
+  if (contribution === ZeroHash) return "NotInitialized";
+  return null;
+}
+
+export function voteBlocker(
+  status: ProviderStatus,
+  proposal: ProposalInfo,
+  voter: VoterStatus,
+  now = status.chainTime,
+): ProposalBlocker | null {
+  if (!status.isProvider) return "NotProvider";
+  if (status.paused) return "Paused";
+  if (now >= proposal.deadline) return "VotingClosed";
+  if (voter.hasVoted) return "AlreadyVoted";
+  if (voter.contribution === ZeroHash) return "NoVotingPower";
+  return null;
+}
+
+export function tallyBlocker(
+  status: ProviderStatus,
+  proposal: ProposalInfo,
+  now = status.chainTime,
+): ProposalBlocker | null {
+  if (!status.isProvider) return "NotProvider";
+  if (status.paused) return "Paused";
+  if (now < proposal.deadline) return "VotingOpen";
+  if (proposal.tallyRevealed) return "TallyAlreadyRevealed";
+  if (now < status.decryptReadyAt) return "CooldownActive";
+  return null;
+}
+
+export function isEvent<N extends TreasuryEventName>(name: N) {
+  return (event: TreasuryEvent): event is TreasuryEvent<N> => event.name === name;
+}
+
+export function sortEvents<E extends TreasuryEvent>(events: E[]): E[] {
+  return [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+function includesAddress(addresses: string[], account: string): boolean {
+  return addresses.some((address) => address.toLowerCase() === account.toLowerCase());
+}
+
+function requireEvent<N extends TreasuryEventName>(result: TreasuryReceipt, name: N): TreasuryEvent<N> {
+  const event = result.events.find(isEvent(name));
+  if (!event) throw new Error(`Transaction ${result.receipt.hash} did not emit ${name}`);
+  return event;
+}
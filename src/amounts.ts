@@ -0,0 +1,33 @@
+import { formatUnits, parseUnits } from "ethers";
+
+/** Fixed-point decimals of every encrypted amount; mirrors `AMOUNT_DECIMALS` in CrossDaoTreasuryFHE. */
+export const AMOUNT_DECIMALS = 6;
+
+/** Largest base-unit amount an `euint64` can hold. */
+export const MAX_AMOUNT = 2n ** 64n - 1n;
+
+/**
+ * Parses a decimal string such as `"1250.5"` into base units. Rejects negative
+ * values, more than `decimals` fractional digits and anything past `MAX_AMOUNT`.
+ */
+export function parseAmount(text: string, decimals = AMOUNT_DECIMALS): bigint {
+  const trimmed = text.trim();
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(trimmed)) {
+    throw new Error("Amount must be a positive decimal number");
+  }
+  const fraction = trimmed.split(".")[1] ?? "";
+  if (fraction.length > decimals) {
+    throw new Error(`Amount supports at most ${decimals} decimal places`);
+  }
+  const value = parseUnits(trimmed.startsWith(".") ? `0${trimmed}` : trimmed.replace(/\.$/, ""), decimals);
+  if (value > MAX_AMOUNT) {
+    throw new Error(`Amount exceeds the encrypted 64-bit range (max ${formatAmount(MAX_AMOUNT, decimals)})`);
+  }
+  return value;
+}
+
+/** Formats base units as a decimal string without a trailing `.0`. */
+export function formatAmount(value: bigint, decimals = AMOUNT_DECIMALS): string {
+  const text = formatUnits(value, decimals);
+  return text.endsWith(".0") ? text.slice(0, -2) : text;
+}
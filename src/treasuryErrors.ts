@@ -0,0 +1,262 @@
+import { isError } from "ethers";
+import { ConfidentialToken__factory, CrossDaoTreasuryFHE__factory } from "../types";
+import type { TreasuryClient } from "./TreasuryClient";
+
+export interface DecodedTreasuryError {
+  /** Custom error name as declared in the contract, e.g. `NotProvider`. */
+  name: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface TreasuryErrorContext {
+  client: TreasuryClient;
+  account: string;
+  /** Which cooldown to report for `CooldownActive`. */
+  action?: "submit" | "decrypt";
+}
+
+interface ErrorExplanation {
+  message: string;
+  suggestion?: string;
+}
+
+const EXPLANATIONS: Record<string, ErrorExplanation> = {
+  NotOwner: {
+    message: "Only the token owner can perform this action",
+  },
+  NotCouncilMember: {
+    message: "Only treasury council members can perform this action",
+    suggestion: "Switch to a council member account or ask the council to run it",
+  },
+  CouncilApprovalRequired: {
+    message: "This action only runs through an approved council action",
+    suggestion: "Propose it to the council and execute it once enough members approve",
+  },
+  UnknownCouncilAction: {
+    message: "No council action exists with this id",
+  },
+  CouncilActionNotPending: {
+    message: "This council action was already executed",
+  },
+  AlreadyApproved: {
+    message: "You have already approved this council action",
+  },
+  NotApproved: {
+    message: "You have not approved this council action",
+  },
+  ThresholdNotMet: {
+    message: "Not enough council members have approved this action yet",
+    suggestion: "Ask other council members to approve it",
+  },
+  NotProvider: {
+    message: "Your address is not a registered provider",
+    suggestion: "Ask the treasury council to add your DAO as a provider",
+  },
+  Paused: {
+    message: "The treasury is paused",
+    suggestion: "Wait until the council unpauses the treasury",
+  },
+  CooldownActive: {
+    message: "Your cooldown is still active",
+    suggestion: "Wait for the cooldown to end and try again",
+  },
+  BatchClosedOrInvalid: {
+    message: "The batch is closed or does not exist",
+    suggestion: "Submit to the current open batch; only closed batches can be decrypted",
+  },
+  BatchWindowElapsed: {
+    message: "The batch's submission window is over",
+    suggestion: "Close the batch and wait for the council to open the next one",
+  },
+  BatchWindowOpen: {
+    message: "The batch's deadline and contribution cap have not been reached",
+    suggestion: "Wait for the window to end, or ask the council to close the batch",
+  },
+  TargetAlreadyChecked: {
+    message: "This batch's funding target has already been checked",
+  },
+  ReplayAttempt: {
+    message: "This decryption request has already been processed",
+  },
+  StateMismatch: {
+    message: "The batch ciphertext changed after the decryption was requested",
+    suggestion: "Request a new decryption for the batch",
+  },
+  InvalidKMSSignatures: {
+    message: "The KMS signatures on the decryption result are invalid",
+  },
+  HandlesAlreadySavedForRequestID: {
+    message: "The handles for this decryption request have already been saved",
+  },
+  NoHandleFoundForRequestID: {
+    message: "No handles are saved for this decryption request",
+  },
+  NotInitialized: {
+    message: "There is no encrypted value to work with yet",
+    suggestion: "The batch needs at least one contribution before its total can be decrypted",
+  },
+  InvalidParameter: {
+    message: "One of the parameters is invalid",
+    suggestion: "Check that addresses are non-zero and the council can still reach its threshold",
+  },
+  UnknownProposal: {
+    message: "The proposal does not exist",
+  },
+  VotingClosed: {
+    message: "Voting on this proposal has ended",
+  },
+  VotingOpen: {
+    message: "Voting on this proposal is still open",
+    suggestion: "The tally can be decrypted once the voting deadline has passed",
+  },
+  AlreadyVoted: {
+    message: "Your DAO has already voted on this proposal",
+  },
+  TallyAlreadyRevealed: {
+    message: "The tally for this proposal has already been revealed",
+  },
+  NoVotingPower: {
+    message: "Your DAO has no contribution in this proposal's batch",
+    suggestion: "Voting weight comes from your encrypted contribution to the batch",
+  },
+  BatchStillOpen: {
+    message: "The batch is still open",
+    suggestion: "Contributions can still be withdrawn until it closes; close the current batch first",
+  },
+  TotalNotRevealed: {
+    message: "The batch total has not been revealed yet",
+    suggestion: "Request decryption of the closed batch total and wait for the oracle before paying returns in",
+  },
+  AlreadyDisbursed: {
+    message: "This batch's principal has already been disbursed",
+  },
+  AlreadySettled: {
+    message: "This batch has already been settled",
+  },
+  NotSettled: {
+    message: "This batch has not been settled yet",
+    suggestion: "Payouts can be claimed once the council settles the batch returns",
+  },
+  AlreadyClaimed: {
+    message: "You have already claimed your payout for this batch",
+  },
+  TimelockRequired: {
+    message: "This council action only runs through the timelock",
+    suggestion: "Propose queueing it as an operation and execute it once the delay has passed",
+  },
+  UnknownOperation: {
+    message: "No timelock operation exists with this id",
+  },
+  OperationNotPending: {
+    message: "This operation was already executed or cancelled",
+  },
+  TimelockNotReady: {
+    message: "The operation's timelock delay has not passed yet",
+    suggestion: "Execute it once its ETA is reached",
+  },
+  OperationExpired: {
+    message: "The operation was not executed within its grace period",
+    suggestion: "Queue it again",
+  },
+  UnauthorizedSpender: {
+    message: "The treasury is not allowed to move your confidential tokens",
+    suggestion: "Approve the treasury as a token operator, then deposit again",
+  },
+  UnauthorizedUseOfEncryptedAmount: {
+    message: "The encrypted amount is not accessible to the caller",
+  },
+};
+
+/** Explanation for a custom error by name, e.g. one predicted by a preflight check. */
+export function explainTreasuryErrorName(name: string): DecodedTreasuryError {
+  return { name, ...(EXPLANATIONS[name] ?? { message: `Contract reverts with ${name}` }) };
+}
+
+// Deposits and withdrawals call into the token, so its reverts bubble up through the treasury.
+const errorInterfaces = [CrossDaoTreasuryFHE__factory.createInterface(), ConfidentialToken__factory.createInterface()];
+
+/** Searches an ethers / wallet error chain for revert data. */
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 5) return null;
+  const candidate = error as Record<string, unknown>;
+  const data = candidate.data;
+  if (typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+  for (const key of ["data", "error", "info", "cause", "revert"]) {
+    const found = findRevertData(candidate[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function isUserRejection(error: unknown): boolean {
+  if (isError(error, "ACTION_REJECTED")) return true;
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return /user (rejected|denied)/i.test(message);
+}
+
+/** Maps a CrossDaoTreasuryFHE or ConfidentialToken custom error revert to an explanation, or null for anything else. */
+export function decodeTreasuryError(error: unknown): DecodedTreasuryError | null {
+  const data = findRevertData(error);
+  if (!data) return null;
+  for (const iface of errorInterfaces) {
+    let parsed;
+    try {
+      parsed = iface.parseError(data);
+    } catch {
+      continue;
+    }
+    if (parsed) return explainTreasuryErrorName(parsed.name);
+  }
+  return null;
+}
+
+/**
+ * Like `decodeTreasuryError`, but reads chain state to make the explanation
+ * concrete (e.g. how many seconds of cooldown are left).
+ */
+export async function explainTreasuryError(
+  error: unknown,
+  context?: TreasuryErrorContext,
+): Promise<DecodedTreasuryError | null> {
+  const decoded = decodeTreasuryError(error);
+  if (!decoded || !context || decoded.name !== "CooldownActive") return decoded;
+  try {
+    const remaining = await cooldownRemaining(context);
+    if (remaining > 0) {
+      return { ...decoded, message: `Cooldown ends in ${remaining} s`, suggestion: "Try again once it has ended" };
+    }
+  } catch {
+    // Keep the static explanation when the chain cannot be read.
+  }
+  return decoded;
+}
+
+async function cooldownRemaining({ client, account, action }: TreasuryErrorContext): Promise<number> {
+  const provider = client.contract.runner?.provider;
+  const [cooldown, lastSubmission, lastDecryption, block] = await Promise.all([
+    client.cooldownSeconds(),
+    client.lastSubmissionTime(account),
+    client.lastDecryptionRequestTime(account),
+    provider?.getBlock("latest"),
+  ]);
+  const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+  let last = lastSubmission > lastDecryption ? lastSubmission : lastDecryption;
+  if (action === "submit") last = lastSubmission;
+  if (action === "decrypt") last = lastDecryption;
+  const endsAt = last + cooldown;
+  return endsAt > now ? Number(endsAt - now) : 0;
+}
+
+/** One-line message for status banners and CLI output. */
+export async function formatTreasuryError(
+  error: unknown,
+  fallbackPrefix: string,
+  context?: TreasuryErrorContext,
+): Promise<string> {
+  if (isUserRejection(error)) return "Transaction rejected by user";
+  const decoded = await explainTreasuryError(error, context);
+  if (decoded) return decoded.suggestion ? `${decoded.message}. ${decoded.suggestion}` : decoded.message;
+  const err = error as { shortMessage?: string; message?: string } | null;
+  return `${fallbackPrefix}: ${err?.shortMessage || err?.message || "Unknown error"}`;
+}
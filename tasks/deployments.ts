@@ -0,0 +1,55 @@
+import { task, types } from "hardhat/config";
+import { filterHistory, readHistory } from "../deploy/history";
+import type { HistoryStatus } from "../deploy/history";
+
+const STATUSES: HistoryStatus[] = ["deployed", "failed"];
+
+task("deployments", "Lists past deployment attempts from deployments/history.jsonl, newest first")
+  .addOptionalParam("chain", "Only show this chain id")
+  .addOptionalParam("networkName", "Only show this network name")
+  .addOptionalParam("contract", "Only show this contract")
+  .addOptionalParam("status", `Only show attempts with this status (${STATUSES.join(" or ")})`)
+  .addOptionalParam("limit", "Show at most this many attempts", undefined, types.int)
+  .addFlag("errors", "Print the full error of failed attempts")
+  .setAction(async (args: {
+    chain?: string;
+    networkName?: string;
+    contract?: string;
+    status?: string;
+    limit?: number;
+    errors: boolean;
+  }) => {
+    if (args.status !== undefined && !STATUSES.includes(args.status as HistoryStatus)) {
+      console.error(`--status must be one of: ${STATUSES.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+    const entries = filterHistory(readHistory(), {
+      chainId: args.chain,
+      network: args.networkName,
+      contract: args.contract,
+      status: args.status as HistoryStatus | undefined,
+    })
+      .reverse()
+      .slice(0, args.limit);
+
+    if (entries.length === 0) {
+      console.log("No matching deployments");
+      return;
+    }
+    for (const entry of entries) {
+      console.log(
+        [
+          entry.timestamp,
+          `${entry.network} (${entry.chainId})`,
+          entry.contract,
+          entry.status,
+          entry.address ?? "-",
+          entry.blockNumber !== undefined ? `block ${entry.blockNumber}` : "-",
+          entry.gasUsed !== undefined ? `gas ${entry.gasUsed}` : "-",
+          entry.commit ? entry.commit.slice(0, 7) + (entry.commit.endsWith("-dirty") ? "-dirty" : "") : "-",
+        ].join("  "),
+      );
+      if (args.errors && entry.error) console.log(entry.error.replace(/^/gm, "    "));
+    }
+  });
@@ -0,0 +1,256 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer } from "ethers";
+import { loadDeployer } from "../deploy/credentials";
+import { readDeployments } from "../deploy/deployments";
+import { formatAmount, parseAmount } from "../src/amounts";
+import type { CouncilProposal, TreasuryClient } from "../src/TreasuryClient";
+import type { TreasuryErrorContext } from "../src/treasuryErrors";
+
+// How long a treasury operator approval from `treasury:submit` lasts.
+const OPERATOR_APPROVAL_SECONDS = 30 * 86400;
+
+interface TreasuryTaskArgs {
+  address?: string;
+}
+
+interface Session {
+  client: TreasuryClient;
+  signer: Signer;
+  account: string;
+}
+
+// The client and error helpers need the generated typings, which `npm run clean` removes before
+// re-running typechain through this config, so they are only loaded when a task runs.
+async function connect(hre: HardhatRuntimeEnvironment, address?: string): Promise<Session> {
+  const { TreasuryClient } = await import("../src/TreasuryClient");
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const treasuryAddress =
+    address ?? readDeployments()[chainId.toString()]?.contracts.CrossDaoTreasuryFHE?.address;
+  if (!treasuryAddress) {
+    throw new Error(
+      `No CrossDaoTreasuryFHE deployment recorded for chain ${chainId} (${hre.network.name}); deploy it or pass --address`,
+    );
+  }
+  // Local nodes and the in-process network share chain id 31337, so a record can outlive its chain.
+  if ((await hre.ethers.provider.getCode(treasuryAddress)) === "0x") {
+    throw new Error(`No contract at ${treasuryAddress} on ${hre.network.name}; redeploy it or pass --address`);
+  }
+  const signer = await loadDeployer(hre.ethers.provider, await hre.ethers.getSigners());
+  const account = await signer.getAddress();
+  console.log(`Treasury ${treasuryAddress} on ${hre.network.name}, acting as ${account}`);
+  return { client: new TreasuryClient(treasuryAddress, signer), signer, account };
+}
+
+// Runs a task body, printing decoded custom errors instead of raw revert data.
+async function run(
+  hre: HardhatRuntimeEnvironment,
+  args: TreasuryTaskArgs,
+  name: string,
+  body: (session: Session) => Promise<void>,
+  action?: TreasuryErrorContext["action"],
+) {
+  let session: Session | undefined;
+  try {
+    session = await connect(hre, args.address);
+    await body(session);
+  } catch (error) {
+    const { formatTreasuryError } = await import("../src/treasuryErrors");
+    const context = session ? { client: session.client, account: session.account, action } : undefined;
+    console.error(await formatTreasuryError(error, `${name} failed`, context));
+    process.exitCode = 1;
+  }
+}
+
+// Executes a council action straight away when the proposer's approval already meets the threshold.
+async function executeIfApproved(client: TreasuryClient, actionId: bigint) {
+  const { isEvent } = await import("../src/TreasuryClient");
+  const [approvals, threshold] = await Promise.all([
+    client.contract.councilApprovals(actionId),
+    client.councilThreshold(),
+  ]);
+  if (approvals < threshold) {
+    console.log(`Council action #${actionId} has ${approvals} of ${threshold} approvals`);
+    console.log(`Other members can run: npx hardhat treasury:approve --action ${actionId}`);
+    return;
+  }
+  const { events } = await client.executeCouncilAction(actionId);
+  console.log(`Council action #${actionId} executed`);
+  for (const { args } of events.filter(isEvent("OperationQueued"))) {
+    const eta = new Date(Number(args.eta) * 1000).toISOString();
+    console.log(`Timelocked operation #${args.operationId} executable from ${eta}`);
+    console.log(`Then run: npx hardhat treasury:execute-operation --operation ${args.operationId}`);
+  }
+}
+
+async function propose(client: TreasuryClient, description: string, proposal: Promise<CouncilProposal>) {
+  const { event } = await proposal;
+  console.log(`Proposed council action #${event.args.actionId}: ${description}`);
+  await executeIfApproved(client, event.args.actionId);
+}
+
+function treasuryTask(name: string, description: string) {
+  return task(name, description).addOptionalParam(
+    "address",
+    "Treasury address, defaults to the deployment recorded for the network",
+  );
+}
+
+treasuryTask("treasury:add-provider", "Proposes adding a provider DAO")
+  .addParam("provider", "Provider address")
+  .setAction(async (args: TreasuryTaskArgs & { provider: string }, hre) =>
+    run(hre, args, "treasury:add-provider", ({ client }) =>
+      propose(client, `add provider ${args.provider}`, client.proposeAddProvider(args.provider)),
+    ),
+  );
+
+treasuryTask("treasury:remove-provider", "Queues removing a provider DAO behind the timelock")
+  .addParam("provider", "Provider address")
+  .setAction(async (args: TreasuryTaskArgs & { provider: string }, hre) =>
+    run(hre, args, "treasury:remove-provider", ({ client }) =>
+      propose(client, `queue removing provider ${args.provider}`, client.queueRemoveProvider(args.provider)),
+    ),
+  );
+
+treasuryTask("treasury:pause", "Queues pausing, or with --unpause unpausing, the treasury behind the timelock")
+  .addFlag("unpause", "Unpause instead of pausing")
+  .setAction(async (args: TreasuryTaskArgs & { unpause: boolean }, hre) =>
+    run(hre, args, "treasury:pause", ({ client }) =>
+      propose(client, args.unpause ? "queue unpausing" : "queue pausing", client.queueSetPaused(!args.unpause)),
+    ),
+  );
+
+treasuryTask("treasury:set-cooldown", "Queues a new submission and decryption cooldown behind the timelock")
+  .addParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .setAction(async (args: TreasuryTaskArgs & { seconds: number }, hre) =>
+    run(hre, args, "treasury:set-cooldown", ({ client }) =>
+      propose(client, `queue a ${args.seconds} s cooldown`, client.queueSetCooldownSeconds(args.seconds)),
+    ),
+  );
+
+treasuryTask("treasury:open-batch", "Proposes opening the next batch, optionally with a submission window")
+  .addOptionalParam("closesIn", "Seconds from now after which submissions are refused", 0, types.int)
+  .addOptionalParam("maxContributions", "Contribution count that closes the batch", 0, types.int)
+  .setAction(async (args: TreasuryTaskArgs & { closesIn: number; maxContributions: number }, hre) =>
+    run(hre, args, "treasury:open-batch", async ({ client }) => {
+      const block = await hre.ethers.provider.getBlock("latest");
+      const closesAt = args.closesIn > 0 ? (block?.timestamp ?? Math.floor(Date.now() / 1000)) + args.closesIn : 0;
+      await propose(client, "open a new batch", client.proposeOpenNewBatch(closesAt, args.maxContributions));
+    }),
+  );
+
+treasuryTask("treasury:close-batch", "Closes the open batch: directly once its window is over, else via the council")
+  .setAction(async (args: TreasuryTaskArgs, hre) =>
+    run(hre, args, "treasury:close-batch", async ({ client }) => {
+      const { batchCloseBlocker } = await import("../src/TreasuryClient");
+      const [settings, block] = await Promise.all([client.getSettings(), hre.ethers.provider.getBlock("latest")]);
+      const batch = await client.getBatch(settings.currentBatchId);
+      const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+      if (batchCloseBlocker(settings.paused, batch, now) === null) {
+        await client.closeElapsedBatch();
+        console.log(`Batch #${batch.batchId} closed`);
+        return;
+      }
+      await propose(client, `close batch #${batch.batchId}`, client.proposeCloseCurrentBatch());
+    }),
+  );
+
+treasuryTask("treasury:disburse", "Queues transferring a closed batch's pooled contributions behind the timelock")
+  .addParam("batch", "Batch id", undefined, types.int)
+  .addParam("recipient", "Address receiving the batch's principal")
+  .setAction(async (args: TreasuryTaskArgs & { batch: number; recipient: string }, hre) =>
+    run(hre, args, "treasury:disburse", ({ client }) =>
+      propose(
+        client,
+        `queue disbursing batch #${args.batch} to ${args.recipient}`,
+        client.queueDisburseBatch(args.batch, args.recipient),
+      ),
+    ),
+  );
+
+treasuryTask("treasury:submit", "Encrypts an amount with the fhevm plugin and contributes it to the open batch")
+  .addParam("amount", "Amount in token units, e.g. 1250.5")
+  .setAction(async (args: TreasuryTaskArgs & { amount: string }, hre) =>
+    run(
+      hre,
+      args,
+      "treasury:submit",
+      async ({ client, account }) => {
+        const amount = parseAmount(args.amount);
+        if (!(await client.isTreasuryOperator(account))) {
+          const block = await hre.ethers.provider.getBlock("latest");
+          await client.approveTreasury((block?.timestamp ?? Math.floor(Date.now() / 1000)) + OPERATOR_APPROVAL_SECONDS);
+          console.log("Approved the treasury to pull deposits from your confidential balance");
+        }
+        await hre.fhevm.initializeCLIApi();
+        const input = await hre.fhevm.createEncryptedInput(client.address, account).add64(amount).encrypt();
+        const { event } = await client.submitEncryptedInvestment(input.handles[0], input.inputProof);
+        console.log(`Submitted ${formatAmount(amount)} to batch #${event.args.batchId} (encrypted)`);
+      },
+      "submit",
+    ),
+  );
+
+treasuryTask("treasury:request-decrypt", "Requests decryption of a closed batch's total")
+  .addParam("batch", "Batch id", undefined, types.int)
+  .setAction(async (args: TreasuryTaskArgs & { batch: number }, hre) =>
+    run(
+      hre,
+      args,
+      "treasury:request-decrypt",
+      async ({ client }) => {
+        const { event } = await client.requestBatchTotalDecryption(args.batch);
+        console.log(`Decryption request #${event.args.requestId} submitted for batch #${args.batch}`);
+        await hre.fhevm.initializeCLIApi();
+        if (!hre.fhevm.isMock) return;
+        await hre.fhevm.awaitDecryptionOracle();
+        console.log(`Batch #${args.batch} total: ${formatAmount(await client.contract.revealedTotalInvestment(args.batch))}`);
+      },
+      "decrypt",
+    ),
+  );
+
+treasuryTask("treasury:approve", "Approves a pending council action and executes it once the threshold is met")
+  .addParam("action", "Council action id", undefined, types.int)
+  .setAction(async (args: TreasuryTaskArgs & { action: number }, hre) =>
+    run(hre, args, "treasury:approve", async ({ client }) => {
+      await client.approveCouncilAction(args.action);
+      console.log(`Approved council action #${args.action}`);
+      await executeIfApproved(client, BigInt(args.action));
+    }),
+  );
+
+treasuryTask("treasury:execute-operation", "Executes a timelocked operation whose delay has passed")
+  .addParam("operation", "Operation id", undefined, types.int)
+  .setAction(async (args: TreasuryTaskArgs & { operation: number }, hre) =>
+    run(hre, args, "treasury:execute-operation", async ({ client }) => {
+      await client.executeOperation(args.operation);
+      console.log(`Timelocked operation #${args.operation} executed`);
+    }),
+  );
+
+treasuryTask("treasury:status", "Prints the treasury's settings, the open batch and the caller's provider status")
+  .setAction(async (args: TreasuryTaskArgs, hre) =>
+    run(hre, args, "treasury:status", async ({ client, account }) => {
+      const { submissionBlocker } = await import("../src/TreasuryClient");
+      const { explainTreasuryErrorName } = await import("../src/treasuryErrors");
+      const [settings, status] = await Promise.all([client.getSettings(), client.getProviderStatus(account)]);
+      const batch = status.currentBatch;
+      const window = [
+        batch.closesAt > 0 ? `closes ${new Date(batch.closesAt * 1000).toISOString()}` : "",
+        batch.maxContributions > 0n ? `cap ${batch.maxContributions} contributions` : "",
+      ].filter(Boolean);
+      const blocker = submissionBlocker(status);
+
+      console.log(`Council:        ${settings.councilThreshold} of [${settings.councilMembers.join(", ")}]`);
+      console.log(`Paused:         ${settings.paused ? "yes" : "no"}`);
+      console.log(`Cooldown:       ${settings.cooldownSeconds} s`);
+      console.log(`Timelock delay: ${settings.timelockDelay} s`);
+      console.log(
+        `Current batch:  #${batch.batchId} ${batch.closed ? "closed" : "open"}, ` +
+          `${batch.contributions} contributions${window.length > 0 ? ` (${window.join(", ")})` : ""}`,
+      );
+      console.log(`Provider:       ${status.isProvider ? "yes" : "no"}`);
+      console.log(`Can submit:     ${blocker ? `no, ${explainTreasuryErrorName(blocker).message}` : "yes"}`);
+    }),
+  );
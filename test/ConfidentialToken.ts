@@ -0,0 +1,118 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { MAX_AMOUNT } from "../src/amounts";
+import { ConfidentialToken, ConfidentialToken__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+  const token = (await factory.deploy("Confidential DAO Dollar", "cDAOD")) as ConfidentialToken;
+  const tokenAddress = await token.getAddress();
+  return { token, tokenAddress };
+}
+
+describe("ConfidentialToken", function () {
+  let signers: Signers;
+  let token: ConfidentialToken;
+  let tokenAddress: string;
+
+  async function balanceOf(signer: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, signer);
+  }
+
+  async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, amount: bigint | number) {
+    const input = await fhevm.createEncryptedInput(tokenAddress, from.address).add64(amount).encrypt();
+    return token.connect(from).confidentialTransfer(to.address, input.handles[0], input.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ token, tokenAddress } = await deployFixture());
+    await token.mint(signers.alice.address, 1000);
+  });
+
+  it("exposes its metadata", async function () {
+    expect(await token.name()).to.eq("Confidential DAO Dollar");
+    expect(await token.symbol()).to.eq("cDAOD");
+    expect(await token.decimals()).to.eq(6n);
+    expect(await token.owner()).to.eq(signers.deployer.address);
+  });
+
+  it("lets only the owner mint", async function () {
+    await expect(token.connect(signers.alice).mint(signers.alice.address, 1)).to.be.revertedWithCustomError(
+      token,
+      "NotOwner",
+    );
+    await expect(token.mint(ethers.ZeroAddress, 1)).to.be.revertedWithCustomError(token, "InvalidParameter");
+    expect(await balanceOf(signers.alice)).to.eq(1000n);
+    expect(await token.confidentialBalanceOf(signers.bob.address)).to.eq(ethers.ZeroHash);
+  });
+
+  it("moves encrypted amounts between holders", async function () {
+    await expect(transfer(signers.alice, signers.bob, 400)).to.emit(token, "ConfidentialTransfer");
+    expect(await balanceOf(signers.alice)).to.eq(600n);
+    expect(await balanceOf(signers.bob)).to.eq(400n);
+    const aliceBalance = await token.confidentialBalanceOf(signers.alice.address);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, aliceBalance, tokenAddress, signers.bob)).to.be.rejected;
+  });
+
+  it("moves nothing when the balance cannot cover the amount", async function () {
+    await transfer(signers.alice, signers.bob, 1001);
+    expect(await balanceOf(signers.alice)).to.eq(1000n);
+    expect(await balanceOf(signers.bob)).to.eq(0n);
+  });
+
+  it("moves nothing when the receiver's balance would overflow", async function () {
+    await token.mint(signers.bob.address, MAX_AMOUNT);
+    await transfer(signers.alice, signers.bob, 1);
+    expect(await balanceOf(signers.alice)).to.eq(1000n);
+    expect(await balanceOf(signers.bob)).to.eq(MAX_AMOUNT);
+  });
+
+  it("lets operators spend until their approval expires", async function () {
+    const handle = await token.confidentialBalanceOf(signers.alice.address);
+    await expect(
+      token.connect(signers.bob).confidentialTransferFrom(signers.alice.address, signers.bob.address, handle),
+    ).to.be.revertedWithCustomError(token, "UnauthorizedSpender");
+
+    const until = (await time.latest()) + 100;
+    await expect(token.connect(signers.alice).setOperator(signers.bob.address, until))
+      .to.emit(token, "OperatorSet")
+      .withArgs(signers.alice.address, signers.bob.address, until);
+    expect(await token.isOperator(signers.alice.address, signers.bob.address)).to.eq(true);
+
+    // The operator also needs ACL access to the amount it moves.
+    await expect(
+      token.connect(signers.bob).confidentialTransferFrom(signers.alice.address, signers.bob.address, handle),
+    ).to.be.revertedWithCustomError(token, "UnauthorizedUseOfEncryptedAmount");
+
+    await time.increase(100);
+    expect(await token.isOperator(signers.alice.address, signers.bob.address)).to.eq(false);
+  });
+
+  it("rejects handle transfers the caller may not use", async function () {
+    await token.mint(signers.bob.address, 5);
+    const aliceBalance = await token.confidentialBalanceOf(signers.alice.address);
+    await expect(
+      token.connect(signers.bob).confidentialTransferHandle(signers.bob.address, aliceBalance),
+    ).to.be.revertedWithCustomError(token, "UnauthorizedUseOfEncryptedAmount");
+  });
+});
@@ -0,0 +1,1549 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { ContractTransactionReceipt } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { AMOUNT_DECIMALS, MAX_AMOUNT, parseAmount } from "../src/amounts";
+import {
+  batchCloseBlocker,
+  LOG_PAGE_BLOCKS,
+  submissionBlocker,
+  targetCheckBlocker,
+  TreasuryClient,
+} from "../src/TreasuryClient";
+import {
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  CrossDaoTreasuryFHE,
+  CrossDaoTreasuryFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+// Starting token balance of every signer.
+const FUNDS = parseAmount("10000000");
+
+async function deployFixture(council: string[], threshold: number) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+  const token = (await tokenFactory.deploy("Confidential DAO Dollar", "cDAOD")) as ConfidentialToken;
+  const tokenAddress = await token.getAddress();
+  const factory = (await ethers.getContractFactory("CrossDaoTreasuryFHE")) as CrossDaoTreasuryFHE__factory;
+  const treasury = (await factory.deploy(tokenAddress, council, threshold)) as CrossDaoTreasuryFHE;
+  const treasuryAddress = await treasury.getAddress();
+  return { token, tokenAddress, treasury, treasuryAddress };
+}
+
+describe("CrossDaoTreasuryFHE", function () {
+  let signers: Signers;
+  let token: ConfidentialToken;
+  let tokenAddress: string;
+  let treasury: CrossDaoTreasuryFHE;
+  let treasuryAddress: string;
+  let cooldown: bigint;
+
+  async function encrypt(signer: HardhatEthersSigner, amount: bigint | number) {
+    return fhevm.createEncryptedInput(treasuryAddress, signer.address).add64(amount).encrypt();
+  }
+
+  async function submit(signer: HardhatEthersSigner, amount: bigint | number) {
+    const input = await encrypt(signer, amount);
+    return treasury.connect(signer).submitEncryptedInvestment(input.handles[0], input.inputProof);
+  }
+
+  async function submittedHandle(signer: HardhatEthersSigner, amount: bigint | number) {
+    const receipt = await (await submit(signer, amount)).wait();
+    const log = receipt!.logs
+      .map((entry) => treasury.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "InvestmentSubmitted");
+    return ethers.toBeHex(log!.args.encryptedAmount, 32);
+  }
+
+  async function balanceOf(signer: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, signer);
+  }
+
+  function parsedLog(receipt: ContractTransactionReceipt | null, name: string) {
+    return receipt!.logs.map((entry) => treasury.interface.parseLog(entry)).find((parsed) => parsed?.name === name);
+  }
+
+  async function proposed(data: string, proposer: HardhatEthersSigner = signers.deployer) {
+    const receipt = await (await treasury.connect(proposer).proposeCouncilAction(data)).wait();
+    return parsedLog(receipt, "CouncilActionProposed")!.args.actionId as bigint;
+  }
+
+  // Proposes a council action, collects the other members' approvals and executes it.
+  async function council(data: string, members: HardhatEthersSigner[] = [signers.deployer]) {
+    const actionId = await proposed(data, members[0]);
+    for (const member of members.slice(1)) {
+      await treasury.connect(member).approveCouncilAction(actionId);
+    }
+    return treasury.connect(members[0]).executeCouncilAction(actionId);
+  }
+
+  // Queues a council operation, waits out the timelock delay and executes it.
+  async function timelocked(data: string, members: HardhatEthersSigner[] = [signers.deployer]) {
+    const operationId = await queued(data, members);
+    await time.increase(await treasury.timelockDelay());
+    return treasury.connect(members[0]).executeOperation(operationId);
+  }
+
+  async function queued(data: string, members: HardhatEthersSigner[] = [signers.deployer]) {
+    const receipt = await (await council(call.queueOperation(data), members)).wait();
+    return parsedLog(receipt, "OperationQueued")!.args.operationId as bigint;
+  }
+
+  const call = {
+    setPaused: (paused: boolean) => treasury.interface.encodeFunctionData("setPaused", [paused]),
+    setCooldownSeconds: (seconds: number) => treasury.interface.encodeFunctionData("setCooldownSeconds", [seconds]),
+    removeProvider: (provider: string) => treasury.interface.encodeFunctionData("removeProvider", [provider]),
+    setTimelockDelay: (delay: number) => treasury.interface.encodeFunctionData("setTimelockDelay", [delay]),
+    addCouncilMember: (member: string) => treasury.interface.encodeFunctionData("addCouncilMember", [member]),
+    removeCouncilMember: (member: string) => treasury.interface.encodeFunctionData("removeCouncilMember", [member]),
+    setCouncilThreshold: (threshold: number) =>
+      treasury.interface.encodeFunctionData("setCouncilThreshold", [threshold]),
+    addProvider: (provider: string) => treasury.interface.encodeFunctionData("addProvider", [provider]),
+    openNewBatch: (closesAt: number = 0, maxContributions: number = 0) =>
+      treasury.interface.encodeFunctionData("openNewBatch", [closesAt, maxContributions]),
+    closeCurrentBatch: () => treasury.interface.encodeFunctionData("closeCurrentBatch"),
+    settleBatch: (batchId: number) => treasury.interface.encodeFunctionData("settleBatch", [batchId]),
+    disburseBatch: (batchId: number, recipient: string) =>
+      treasury.interface.encodeFunctionData("disburseBatch", [batchId, recipient]),
+    setFundingTarget: (batchId: number, handle: Uint8Array, inputProof: Uint8Array) =>
+      treasury.interface.encodeFunctionData("setFundingTarget", [batchId, handle, inputProof]),
+    queueOperation: (data: string) => treasury.interface.encodeFunctionData("queueOperation", [data]),
+    cancelOperation: (operationId: bigint | number) =>
+      treasury.interface.encodeFunctionData("cancelOperation", [operationId]),
+  };
+
+  async function vote(signer: HardhatEthersSigner, proposalId: number, support: boolean) {
+    const input = await fhevm.createEncryptedInput(treasuryAddress, signer.address).addBool(support).encrypt();
+    return treasury.connect(signer).castVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function decryptionRequestId(batchId: number, signer: HardhatEthersSigner = signers.alice) {
+    const tx = await treasury.connect(signer).requestBatchTotalDecryption(batchId);
+    const receipt = await tx.wait();
+    const log = receipt!.logs
+      .map((entry) => treasury.interface.parseLog(entry))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return log!.args.requestId as bigint;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], outsider: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ token, tokenAddress, treasury, treasuryAddress } = await deployFixture([signers.deployer.address], 1));
+    await council(call.addProvider(signers.alice.address));
+    await council(call.addProvider(signers.bob.address));
+    const until = (await time.latest()) + 365 * 86400;
+    for (const signer of Object.values(signers)) {
+      await token.mint(signer.address, FUNDS);
+      await token.connect(signer).setOperator(treasuryAddress, until);
+    }
+    cooldown = await treasury.cooldownSeconds();
+  });
+
+  describe("deployment", function () {
+    it("registers the council as providers with batch 1 open", async function () {
+      expect(await treasury.getCouncilMembers()).to.deep.eq([signers.deployer.address]);
+      expect(await treasury.councilThreshold()).to.eq(1n);
+      expect(await treasury.isCouncilMember(signers.deployer.address)).to.eq(true);
+      expect(await treasury.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await treasury.paused()).to.eq(false);
+      expect(cooldown).to.eq(60n);
+      expect(await treasury.currentBatchId()).to.eq(1n);
+      expect(await treasury.batchClosed(1)).to.eq(false);
+      expect(await treasury.encryptedTotalInvestment(1)).to.eq(ethers.ZeroHash);
+      expect(await treasury.token()).to.eq(tokenAddress);
+    });
+
+    it("requires a token", async function () {
+      const factory = (await ethers.getContractFactory("CrossDaoTreasuryFHE")) as CrossDaoTreasuryFHE__factory;
+      await expect(factory.deploy(ethers.ZeroAddress, [signers.deployer.address], 1)).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("requires a council that can reach its threshold", async function () {
+      const factory = (await ethers.getContractFactory("CrossDaoTreasuryFHE")) as CrossDaoTreasuryFHE__factory;
+      const members = [signers.deployer.address, signers.alice.address];
+      for (const [council, threshold] of [
+        [[], 1],
+        [members, 0],
+        [members, 3],
+        [[signers.deployer.address, signers.deployer.address], 1],
+        [[ethers.ZeroAddress], 1],
+      ] as [string[], number][]) {
+        await expect(factory.deploy(tokenAddress, council, threshold)).to.be.revertedWithCustomError(
+          treasury,
+          "InvalidParameter",
+        );
+      }
+    });
+
+    it("uses the amount decimals shared with the clients", async function () {
+      expect(await treasury.AMOUNT_DECIMALS()).to.eq(AMOUNT_DECIMALS);
+      expect(await new TreasuryClient(treasuryAddress, signers.deployer).amountDecimals()).to.eq(AMOUNT_DECIMALS);
+    });
+  });
+
+  describe("provider gating", function () {
+    it("rejects submissions from non-providers", async function () {
+      const input = await encrypt(signers.outsider, 10);
+      await expect(
+        treasury.connect(signers.outsider).submitEncryptedInvestment(input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(treasury, "NotProvider");
+    });
+
+    it("rejects decryption requests from non-providers", async function () {
+      await expect(
+        treasury.connect(signers.outsider).requestBatchTotalDecryption(1),
+      ).to.be.revertedWithCustomError(treasury, "NotProvider");
+    });
+
+    it("lets only the council manage providers", async function () {
+      await expect(treasury.addProvider(signers.outsider.address)).to.be.revertedWithCustomError(
+        treasury,
+        "CouncilApprovalRequired",
+      );
+      await expect(
+        treasury.connect(signers.alice).proposeCouncilAction(call.addProvider(signers.outsider.address)),
+      ).to.be.revertedWithCustomError(treasury, "NotCouncilMember");
+
+      await expect(council(call.addProvider(signers.outsider.address)))
+        .to.emit(treasury, "ProviderAdded")
+        .withArgs(signers.outsider.address);
+      expect(await treasury.isProvider(signers.outsider.address)).to.eq(true);
+
+      await expect(timelocked(call.removeProvider(signers.outsider.address)))
+        .to.emit(treasury, "ProviderRemoved")
+        .withArgs(signers.outsider.address);
+      expect(await treasury.isProvider(signers.outsider.address)).to.eq(false);
+    });
+
+    it("rejects the zero address as a provider", async function () {
+      await expect(council(call.addProvider(ethers.ZeroAddress))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+      await expect(timelocked(call.removeProvider(ethers.ZeroAddress))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("does not emit again when a provider is already registered", async function () {
+      await expect(council(call.addProvider(signers.alice.address))).not.to.emit(treasury, "ProviderAdded");
+    });
+
+    it("locks a removed provider out of submissions", async function () {
+      await timelocked(call.removeProvider(signers.alice.address));
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(treasury, "NotProvider");
+    });
+
+    it("keeps council members registered as providers", async function () {
+      await expect(timelocked(call.removeProvider(signers.deployer.address))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+  });
+
+  describe("pausing", function () {
+    it("lets only the council pause", async function () {
+      await expect(
+        treasury.connect(signers.alice).proposeCouncilAction(call.queueOperation(call.setPaused(true))),
+      ).to.be.revertedWithCustomError(treasury, "NotCouncilMember");
+      await expect(timelocked(call.setPaused(true))).to.emit(treasury, "PauseToggled").withArgs(true);
+    });
+
+    it("blocks submissions, batch changes and decryption requests while paused", async function () {
+      await timelocked(call.setPaused(true));
+
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(treasury, "Paused");
+      await expect(council(call.openNewBatch())).to.be.revertedWithCustomError(treasury, "Paused");
+      await expect(council(call.closeCurrentBatch())).to.be.revertedWithCustomError(treasury, "Paused");
+      await expect(
+        treasury.connect(signers.alice).requestBatchTotalDecryption(1),
+      ).to.be.revertedWithCustomError(treasury, "Paused");
+    });
+
+    it("resumes submissions after unpausing", async function () {
+      await timelocked(call.setPaused(true));
+      await timelocked(call.setPaused(false));
+      await expect(submit(signers.alice, 10)).to.emit(treasury, "InvestmentSubmitted");
+    });
+  });
+
+  describe("timelock", function () {
+    it("starts with a two day delay", async function () {
+      expect(await treasury.timelockDelay()).to.eq(2n * 86400n);
+      expect(await treasury.operationCount()).to.eq(0n);
+    });
+
+    it("refuses sensitive calls that bypass the queue", async function () {
+      await expect(treasury.setPaused(true)).to.be.revertedWithCustomError(treasury, "TimelockRequired");
+      await expect(treasury.setCooldownSeconds(0)).to.be.revertedWithCustomError(treasury, "TimelockRequired");
+      await expect(treasury.removeProvider(signers.bob.address)).to.be.revertedWithCustomError(
+        treasury,
+        "TimelockRequired",
+      );
+      await expect(treasury.addCouncilMember(signers.bob.address)).to.be.revertedWithCustomError(
+        treasury,
+        "TimelockRequired",
+      );
+      await expect(treasury.setTimelockDelay(3600)).to.be.revertedWithCustomError(treasury, "TimelockRequired");
+      await expect(treasury.queueOperation(call.setPaused(true))).to.be.revertedWithCustomError(
+        treasury,
+        "CouncilApprovalRequired",
+      );
+      await expect(proposed(call.setPaused(true))).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+    });
+
+    it("executes a queued operation only after its ETA", async function () {
+      const data = call.setPaused(true);
+      const delay = await treasury.timelockDelay();
+      const actionId = await proposed(call.queueOperation(data));
+      const eta = BigInt((await time.latest()) + 1) + delay;
+      await expect(treasury.executeCouncilAction(actionId))
+        .to.emit(treasury, "OperationQueued")
+        .withArgs(1, data.slice(0, 10), data, eta);
+
+      const operation = await treasury.operations(1);
+      expect(operation.data).to.eq(data);
+      expect(operation.executed).to.eq(false);
+      await expect(treasury.executeOperation(1)).to.be.revertedWithCustomError(treasury, "TimelockNotReady");
+
+      await time.increase(delay);
+      await expect(treasury.connect(signers.alice).executeOperation(1)).to.be.revertedWithCustomError(
+        treasury,
+        "NotCouncilMember",
+      );
+      await expect(treasury.executeOperation(1)).to.emit(treasury, "OperationExecuted").withArgs(1);
+      expect(await treasury.paused()).to.eq(true);
+      expect((await treasury.operations(1)).executed).to.eq(true);
+      await expect(treasury.executeOperation(1)).to.be.revertedWithCustomError(treasury, "OperationNotPending");
+    });
+
+    it("only queues calls to the timelocked functions", async function () {
+      await expect(
+        council(call.queueOperation(call.openNewBatch())),
+      ).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+      await expect(council(call.queueOperation("0x1234"))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("lets the council cancel a pending operation", async function () {
+      const operationId = await queued(call.removeProvider(signers.bob.address));
+      await expect(treasury.cancelOperation(operationId)).to.be.revertedWithCustomError(
+        treasury,
+        "CouncilApprovalRequired",
+      );
+      await expect(council(call.cancelOperation(operationId)))
+        .to.emit(treasury, "OperationCancelled")
+        .withArgs(operationId);
+
+      await time.increase(await treasury.timelockDelay());
+      await expect(treasury.executeOperation(operationId)).to.be.revertedWithCustomError(
+        treasury,
+        "OperationNotPending",
+      );
+      await expect(council(call.cancelOperation(99))).to.be.revertedWithCustomError(treasury, "UnknownOperation");
+      expect(await treasury.isProvider(signers.bob.address)).to.eq(true);
+    });
+
+    it("expires operations left unexecuted past the grace period", async function () {
+      const operationId = await queued(call.setCooldownSeconds(0));
+      await time.increase((await treasury.timelockDelay()) + (await treasury.TIMELOCK_GRACE_PERIOD()) + 1n);
+      await expect(treasury.executeOperation(operationId)).to.be.revertedWithCustomError(treasury, "OperationExpired");
+    });
+
+    it("timelocks changes to its own delay within bounds", async function () {
+      await expect(timelocked(call.setTimelockDelay(3600)))
+        .to.emit(treasury, "TimelockDelaySet")
+        .withArgs(2 * 86400, 3600);
+      await expect(timelocked(call.setTimelockDelay(60))).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+      await expect(timelocked(call.setTimelockDelay(31 * 86400))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("lists queued operations through TreasuryClient", async function () {
+      const client = new TreasuryClient(treasuryAddress, signers.deployer);
+      for (const proposal of [
+        await client.queueSetCooldownSeconds(30),
+        await client.queueRemoveProvider(signers.bob.address),
+        await client.proposeCancelOperation(2),
+      ]) {
+        await client.executeCouncilAction(proposal.event.args.actionId);
+      }
+
+      const [cancelled, pending] = await client.listOperations();
+      expect(cancelled.operationId).to.eq(2n);
+      expect(cancelled.state).to.eq("cancelled");
+      expect(cancelled.functionName).to.eq("removeProvider");
+      expect(cancelled.args).to.deep.eq([signers.bob.address]);
+      expect(pending.functionName).to.eq("setCooldownSeconds");
+      expect(pending.args).to.deep.eq([30n]);
+      expect(pending.state).to.eq("queued");
+
+      await time.increase(await treasury.timelockDelay());
+      expect((await client.getOperation(1)).state).to.eq("ready");
+      const { event } = await client.executeOperation(1);
+      expect(event.args.operationId).to.eq(1n);
+      expect(await treasury.cooldownSeconds()).to.eq(30n);
+      expect((await client.getOperation(1)).state).to.eq("executed");
+    });
+  });
+
+  describe("council", function () {
+    let members: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      members = [signers.deployer, signers.alice, signers.bob];
+      ({ treasury, treasuryAddress } = await deployFixture(
+        members.map((member) => member.address),
+        2,
+      ));
+    });
+
+    it("registers every council member as a provider", async function () {
+      expect(await treasury.getCouncilMembers()).to.deep.eq(members.map((member) => member.address));
+      expect(await treasury.councilThreshold()).to.eq(2n);
+      for (const member of members) {
+        expect(await treasury.isProvider(member.address)).to.eq(true);
+      }
+      expect(await treasury.isCouncilMember(signers.outsider.address)).to.eq(false);
+    });
+
+    it("executes an action once enough members approve it", async function () {
+      const data = call.addProvider(signers.outsider.address);
+      await expect(treasury.proposeCouncilAction(data))
+        .to.emit(treasury, "CouncilActionProposed")
+        .withArgs(1, signers.deployer.address, data.slice(0, 10), data)
+        .and.to.emit(treasury, "CouncilActionApproved")
+        .withArgs(1, signers.deployer.address);
+      expect(await treasury.councilApprovals(1)).to.eq(1n);
+      await expect(treasury.executeCouncilAction(1)).to.be.revertedWithCustomError(treasury, "ThresholdNotMet");
+
+      await treasury.connect(signers.alice).approveCouncilAction(1);
+      expect(await treasury.councilApprovals(1)).to.eq(2n);
+      await expect(treasury.connect(signers.bob).executeCouncilAction(1))
+        .to.emit(treasury, "CouncilActionExecuted")
+        .withArgs(1, signers.bob.address)
+        .and.to.emit(treasury, "ProviderAdded")
+        .withArgs(signers.outsider.address);
+      expect((await treasury.councilActions(1)).executed).to.eq(true);
+      await expect(treasury.executeCouncilAction(1)).to.be.revertedWithCustomError(
+        treasury,
+        "CouncilActionNotPending",
+      );
+    });
+
+    it("tracks each member's approval", async function () {
+      const actionId = await proposed(call.openNewBatch());
+      await expect(treasury.approveCouncilAction(actionId)).to.be.revertedWithCustomError(treasury, "AlreadyApproved");
+      await expect(treasury.connect(signers.bob).revokeCouncilApproval(actionId)).to.be.revertedWithCustomError(
+        treasury,
+        "NotApproved",
+      );
+      await expect(treasury.connect(signers.outsider).approveCouncilAction(actionId)).to.be.revertedWithCustomError(
+        treasury,
+        "NotCouncilMember",
+      );
+      await expect(treasury.approveCouncilAction(99)).to.be.revertedWithCustomError(treasury, "UnknownCouncilAction");
+
+      await treasury.connect(signers.alice).approveCouncilAction(actionId);
+      await expect(treasury.connect(signers.alice).revokeCouncilApproval(actionId))
+        .to.emit(treasury, "CouncilApprovalRevoked")
+        .withArgs(actionId, signers.alice.address);
+      expect(await treasury.hasApprovedAction(actionId, signers.alice.address)).to.eq(false);
+      await expect(treasury.executeCouncilAction(actionId)).to.be.revertedWithCustomError(treasury, "ThresholdNotMet");
+    });
+
+    it("only accepts calls to council-gated functions", async function () {
+      await expect(proposed(call.setPaused(true))).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+      await expect(proposed(treasury.interface.encodeFunctionData("claimPayout", [1]))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+      await expect(proposed("0x1234")).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+    });
+
+    it("keeps an action pending when its call reverts", async function () {
+      await council(call.closeCurrentBatch(), members);
+      const actionId = await proposed(call.closeCurrentBatch());
+      await treasury.connect(signers.alice).approveCouncilAction(actionId);
+      await expect(treasury.executeCouncilAction(actionId)).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+      expect((await treasury.councilActions(actionId)).executed).to.eq(false);
+    });
+
+    it("changes its membership and threshold through the timelock", async function () {
+      await expect(timelocked(call.addCouncilMember(signers.outsider.address), members))
+        .to.emit(treasury, "CouncilMemberAdded")
+        .withArgs(signers.outsider.address)
+        .and.to.emit(treasury, "ProviderAdded")
+        .withArgs(signers.outsider.address);
+
+      await expect(timelocked(call.removeCouncilMember(signers.bob.address), members))
+        .to.emit(treasury, "CouncilMemberRemoved")
+        .withArgs(signers.bob.address);
+      expect(await treasury.isCouncilMember(signers.bob.address)).to.eq(false);
+      expect(await treasury.isProvider(signers.bob.address)).to.eq(true);
+
+      members = [signers.deployer, signers.alice, signers.outsider];
+      await expect(timelocked(call.setCouncilThreshold(4), members)).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+      await expect(timelocked(call.setCouncilThreshold(3), members))
+        .to.emit(treasury, "CouncilThresholdSet")
+        .withArgs(2, 3);
+      await expect(timelocked(call.removeCouncilMember(signers.alice.address), members)).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("stops counting approvals from removed members", async function () {
+      const actionId = await proposed(call.openNewBatch(), signers.bob);
+      await timelocked(call.removeCouncilMember(signers.bob.address), members);
+      expect(await treasury.councilApprovals(actionId)).to.eq(0n);
+      await expect(treasury.connect(signers.bob).executeCouncilAction(actionId)).to.be.revertedWithCustomError(
+        treasury,
+        "NotCouncilMember",
+      );
+    });
+
+    it("lists pending approvals through TreasuryClient", async function () {
+      await council(call.closeCurrentBatch(), members);
+      const client = new TreasuryClient(treasuryAddress, signers.alice);
+      const { event } = await client.proposeOpenNewBatch();
+      await client.connect(signers.deployer).queueSetPaused(true);
+
+      const [queue, open] = await client.listCouncilActions();
+      expect(queue.functionName).to.eq("queueOperation");
+      expect(queue.approvals).to.deep.eq([signers.deployer.address]);
+      expect(open.actionId).to.eq(event.args.actionId);
+      expect(open.functionName).to.eq("openNewBatch");
+      expect(open.proposer).to.eq(signers.alice.address);
+      expect(open.approvals).to.deep.eq([signers.alice.address]);
+      expect(open.state).to.eq("pending");
+
+      await client.connect(signers.bob).approveCouncilAction(open.actionId);
+      expect((await client.getCouncilAction(open.actionId)).state).to.eq("approved");
+      await client.executeCouncilAction(open.actionId);
+      expect((await client.getCouncilAction(open.actionId)).state).to.eq("executed");
+      expect(await client.currentBatchId()).to.eq(2n);
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("rejects a second submission inside the cooldown window", async function () {
+      await submit(signers.alice, 10);
+      await expect(submit(signers.alice, 20)).to.be.revertedWithCustomError(treasury, "CooldownActive");
+    });
+
+    it("tracks the cooldown per provider", async function () {
+      await submit(signers.alice, 10);
+      await expect(submit(signers.bob, 20)).to.emit(treasury, "InvestmentSubmitted");
+    });
+
+    it("accepts a submission once the cooldown has elapsed", async function () {
+      await submit(signers.alice, 10);
+      await time.increase(cooldown);
+      await expect(submit(signers.alice, 20)).to.emit(treasury, "InvestmentSubmitted");
+      expect(await treasury.numContributionsInBatch(1)).to.eq(2n);
+    });
+
+    it("applies a cooldown to decryption requests", async function () {
+      await submit(signers.alice, 10);
+      await council(call.closeCurrentBatch());
+      await treasury.connect(signers.alice).requestBatchTotalDecryption(1);
+      await expect(
+        treasury.connect(signers.alice).requestBatchTotalDecryption(1),
+      ).to.be.revertedWithCustomError(treasury, "CooldownActive");
+
+      await time.increase(cooldown);
+      await expect(treasury.connect(signers.alice).requestBatchTotalDecryption(1)).to.emit(
+        treasury,
+        "DecryptionRequested",
+      );
+    });
+
+    it("lets the council change the cooldown", async function () {
+      await expect(timelocked(call.setCooldownSeconds(0)))
+        .to.emit(treasury, "CooldownSecondsSet")
+        .withArgs(cooldown, 0);
+
+      await submit(signers.alice, 10);
+      await expect(submit(signers.alice, 20)).to.emit(treasury, "InvestmentSubmitted");
+    });
+  });
+
+  describe("batches", function () {
+    it("opens and closes batches", async function () {
+      await expect(council(call.closeCurrentBatch())).to.emit(treasury, "BatchClosed").withArgs(1);
+      expect(await treasury.batchClosed(1)).to.eq(true);
+
+      await expect(council(call.openNewBatch())).to.emit(treasury, "BatchOpened").withArgs(2, 0, 0);
+      expect(await treasury.currentBatchId()).to.eq(2n);
+      expect(await treasury.batchClosed(2)).to.eq(false);
+    });
+
+    it("refuses to open a batch while the current one is still open", async function () {
+      await submit(signers.alice, 10);
+      await expect(council(call.openNewBatch())).to.be.revertedWithCustomError(treasury, "BatchStillOpen");
+      expect(await treasury.currentBatchId()).to.eq(1n);
+      // The contribution stays reachable in batch 1.
+      await expect(treasury.connect(signers.alice).withdrawContribution())
+        .to.emit(treasury, "ContributionWithdrawn")
+        .withArgs(signers.alice.address, 1, anyValue);
+    });
+
+    it("lets only the council open or close batches", async function () {
+      await expect(treasury.openNewBatch(0, 0)).to.be.revertedWithCustomError(treasury, "CouncilApprovalRequired");
+      await expect(treasury.closeCurrentBatch()).to.be.revertedWithCustomError(treasury, "CouncilApprovalRequired");
+    });
+
+    it("rejects closing a batch twice", async function () {
+      await council(call.closeCurrentBatch());
+      await expect(council(call.closeCurrentBatch())).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+    });
+
+    it("rejects submissions into a closed batch", async function () {
+      await council(call.closeCurrentBatch());
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+    });
+
+    it("rejects decryption of open, unknown or empty batches", async function () {
+      await expect(
+        treasury.connect(signers.alice).requestBatchTotalDecryption(1),
+      ).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+      await expect(
+        treasury.connect(signers.alice).requestBatchTotalDecryption(0),
+      ).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+
+      await council(call.closeCurrentBatch());
+      await expect(
+        treasury.connect(signers.alice).requestBatchTotalDecryption(1),
+      ).to.be.revertedWithCustomError(treasury, "NotInitialized");
+    });
+
+    it("keeps totals separate per batch", async function () {
+      await submit(signers.alice, 100);
+      await council(call.closeCurrentBatch());
+      await council(call.openNewBatch());
+      await submit(signers.bob, 40);
+      await council(call.closeCurrentBatch());
+
+      expect(await treasury.numContributionsInBatch(1)).to.eq(1n);
+      expect(await treasury.numContributionsInBatch(2)).to.eq(1n);
+
+      await decryptionRequestId(1, signers.alice);
+      await decryptionRequestId(2, signers.bob);
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await treasury.queryFilter(treasury.filters.DecryptionCompleted());
+      const totals = new Map(completed.map((event) => [event.args.batchId, event.args.totalInvestment]));
+      expect(totals.get(1n)).to.eq(100n);
+      expect(totals.get(2n)).to.eq(40n);
+    });
+  });
+
+  describe("event history", function () {
+    it("reads events across log pages through TreasuryClient", async function () {
+      const client = new TreasuryClient(treasuryAddress, signers.alice);
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await submit(signers.alice, 100);
+      await mine(LOG_PAGE_BLOCKS);
+      await council(call.closeCurrentBatch());
+
+      const [batch] = await client.listBatches(fromBlock);
+      expect(batch.timeline.map((event) => event.name)).to.deep.eq(["InvestmentSubmitted", "BatchClosed"]);
+      expect((await client.adminHistory(fromBlock)).map((event) => event.name)).to.deep.eq(["BatchClosed"]);
+      expect(await client.queryEvents("BatchClosed", fromBlock, fromBlock + LOG_PAGE_BLOCKS)).to.be.empty;
+    });
+  });
+
+  describe("batch windows", function () {
+    async function openWindowed(closesAt: number, maxContributions: number) {
+      await council(call.closeCurrentBatch());
+      await council(call.openNewBatch(closesAt, maxContributions));
+    }
+
+    it("records the window of a new batch", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      await council(call.closeCurrentBatch());
+      await expect(council(call.openNewBatch(closesAt, 5)))
+        .to.emit(treasury, "BatchOpened")
+        .withArgs(2, closesAt, 5);
+      expect(await treasury.batchClosesAt(2)).to.eq(BigInt(closesAt));
+      expect(await treasury.batchMaxContributions(2)).to.eq(5n);
+      expect(await treasury.batchClosesAt(1)).to.eq(0n);
+    });
+
+    it("rejects a deadline that has already passed", async function () {
+      await council(call.closeCurrentBatch());
+      await expect(council(call.openNewBatch(await time.latest(), 0))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("refuses submissions and withdrawals after the deadline, then lets anyone close", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      await openWindowed(closesAt, 0);
+      await submit(signers.alice, 10);
+      await expect(treasury.connect(signers.outsider).closeElapsedBatch()).to.be.revertedWithCustomError(
+        treasury,
+        "BatchWindowOpen",
+      );
+
+      await time.increaseTo(closesAt);
+      await expect(submit(signers.bob, 10)).to.be.revertedWithCustomError(treasury, "BatchWindowElapsed");
+      await expect(treasury.connect(signers.alice).withdrawContribution()).to.be.revertedWithCustomError(
+        treasury,
+        "BatchWindowElapsed",
+      );
+
+      await expect(treasury.connect(signers.outsider).closeElapsedBatch())
+        .to.emit(treasury, "BatchClosed")
+        .withArgs(2);
+      await expect(treasury.connect(signers.outsider).closeElapsedBatch()).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+    });
+
+    it("closes the batch on the contribution that reaches the cap", async function () {
+      await openWindowed(0, 2);
+      await submit(signers.alice, 10);
+      expect(await treasury.batchClosed(2)).to.eq(false);
+      await expect(submit(signers.bob, 20)).to.emit(treasury, "BatchClosed").withArgs(2);
+      await expect(submit(signers.deployer, 30)).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+    });
+
+    it("frees a withdrawn contribution's slots under the cap", async function () {
+      await openWindowed(0, 3);
+      await submit(signers.alice, 10);
+      await time.increase(cooldown);
+      await submit(signers.alice, 15);
+      await treasury.connect(signers.alice).withdrawContribution();
+      expect(await treasury.numContributionsInBatch(2)).to.eq(0n);
+      expect(await treasury.numContributionsBy(2, signers.alice.address)).to.eq(0n);
+
+      await time.increase(cooldown);
+      await submit(signers.alice, 20);
+      await submit(signers.bob, 30);
+      expect(await treasury.batchClosed(2)).to.eq(false);
+      expect(await treasury.numContributionsInBatch(2)).to.eq(2n);
+      await expect(submit(signers.deployer, 40)).to.emit(treasury, "BatchClosed").withArgs(2);
+
+      await decryptionRequestId(2);
+      await fhevm.awaitDecryptionOracle();
+      expect(await treasury.revealedTotalInvestment(2)).to.eq(90n);
+    });
+
+    it("keeps batches without a window open until the council closes them", async function () {
+      await expect(treasury.connect(signers.outsider).closeElapsedBatch()).to.be.revertedWithCustomError(
+        treasury,
+        "BatchWindowOpen",
+      );
+      await time.increase(30 * 86400);
+      await submit(signers.alice, 10);
+      expect(await treasury.batchWindowElapsed(1)).to.eq(false);
+    });
+
+    it("predicts window blockers through TreasuryClient", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      await openWindowed(closesAt, 0);
+      const client = new TreasuryClient(treasuryAddress, signers.bob);
+
+      const status = await client.getProviderStatus(signers.bob.address);
+      expect(status.currentBatch.closesAt).to.eq(closesAt);
+      expect(submissionBlocker(status)).to.eq(null);
+      expect(batchCloseBlocker(status.paused, status.currentBatch, status.chainTime)).to.eq("BatchWindowOpen");
+
+      await time.increaseTo(closesAt);
+      const elapsed = await client.getProviderStatus(signers.bob.address);
+      expect(submissionBlocker(elapsed)).to.eq("BatchWindowElapsed");
+      expect(batchCloseBlocker(elapsed.paused, elapsed.currentBatch, elapsed.chainTime)).to.eq(null);
+
+      await client.closeElapsedBatch();
+      expect((await client.getBatch(2)).closed).to.eq(true);
+    });
+  });
+
+  describe("encrypted accumulation", function () {
+    it("grants each provider decryption rights on their own contribution", async function () {
+      const handle = await submittedHandle(signers.alice, 1234);
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint64, handle, treasuryAddress, signers.alice);
+      expect(clear).to.eq(1234n);
+    });
+
+    it("adds contributions homomorphically into the batch total", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 250);
+      await submit(signers.deployer, 7);
+      expect(await treasury.numContributionsInBatch(1)).to.eq(3n);
+
+      const total = await treasury.encryptedTotalInvestment(1);
+      expect(total).not.to.eq(ethers.ZeroHash);
+
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.batchId).to.eq(1n);
+      expect(completed.args.totalInvestment).to.eq(357n);
+      expect((await treasury.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("keeps a per-provider ledger that sums repeat contributions", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 30);
+      await time.increase(cooldown);
+      await submit(signers.alice, 50);
+
+      const aliceHandle = await treasury.encryptedContributions(1, signers.alice.address);
+      const bobHandle = await treasury.encryptedContributions(1, signers.bob.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, aliceHandle, treasuryAddress, signers.alice)).to.eq(150n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bobHandle, treasuryAddress, signers.bob)).to.eq(30n);
+      expect(await treasury.encryptedContributions(1, signers.outsider.address)).to.eq(ethers.ZeroHash);
+    });
+
+    it("does not let one provider decrypt another's contribution", async function () {
+      await submit(signers.alice, 100);
+      const aliceHandle = await treasury.encryptedContributions(1, signers.alice.address);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, aliceHandle, treasuryAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("starts a fresh ledger entry in each batch", async function () {
+      await submit(signers.alice, 100);
+      await council(call.closeCurrentBatch());
+      await council(call.openNewBatch());
+      await time.increase(cooldown);
+      await submit(signers.alice, 8);
+
+      const handle = await treasury.encryptedContributions(2, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, treasuryAddress, signers.alice)).to.eq(8n);
+    });
+
+    it("accumulates amounts beyond the 32-bit range", async function () {
+      const large = parseAmount("5000000.25");
+      await submit(signers.alice, large);
+      await submit(signers.bob, large);
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalInvestment).to.eq(large * 2n);
+      expect(completed.args.totalInvestment).to.be.gt(2n ** 32n);
+    });
+
+    it("counts a contribution that would overflow the batch total as zero", async function () {
+      await token.mint(signers.alice.address, MAX_AMOUNT - 10n - FUNDS);
+      await submit(signers.alice, MAX_AMOUNT - 10n);
+      const rejected = await submittedHandle(signers.bob, 100);
+      const accepted = await submittedHandle(signers.deployer, 10);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, rejected, treasuryAddress, signers.bob)).to.eq(0n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, accepted, treasuryAddress, signers.deployer)).to.eq(10n);
+      const bobContribution = await treasury.encryptedContributions(1, signers.bob.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bobContribution, treasuryAddress, signers.bob)).to.eq(0n);
+
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalInvestment).to.eq(MAX_AMOUNT);
+    });
+
+    it("replaces the total handle on every contribution", async function () {
+      await submit(signers.alice, 1);
+      const first = await treasury.encryptedTotalInvestment(1);
+      await submit(signers.bob, 2);
+      expect(await treasury.encryptedTotalInvestment(1)).not.to.eq(first);
+    });
+  });
+
+  describe("token custody", function () {
+    it("moves each contribution from the provider's balance into the pool", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 30);
+
+      expect(await balanceOf(signers.alice)).to.eq(FUNDS - 100n);
+      expect(await balanceOf(signers.bob)).to.eq(FUNDS - 30n);
+      await expect(fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.confidentialBalanceOf(treasuryAddress),
+        tokenAddress,
+        signers.alice,
+      )).to.be.rejected;
+    });
+
+    it("counts a contribution the provider cannot cover as zero", async function () {
+      const handle = await submittedHandle(signers.alice, FUNDS + 1n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, treasuryAddress, signers.alice)).to.eq(0n);
+      expect(await balanceOf(signers.alice)).to.eq(FUNDS);
+
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalInvestment).to.eq(0n);
+    });
+
+    it("requires the treasury to be an operator of the provider's tokens", async function () {
+      await token.connect(signers.bob).setOperator(treasuryAddress, 0);
+      await expect(submit(signers.bob, 10)).to.be.revertedWithCustomError(token, "UnauthorizedSpender");
+    });
+
+    it("returns the whole contribution on withdrawal while the batch is open", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 30);
+      await time.increase(cooldown);
+      await submit(signers.alice, 50);
+
+      const receipt = await (await treasury.connect(signers.alice).withdrawContribution()).wait();
+      const log = receipt!.logs
+        .map((entry) => treasury.interface.parseLog(entry))
+        .find((parsed) => parsed?.name === "ContributionWithdrawn");
+      expect(log!.args.provider).to.eq(signers.alice.address);
+      expect(log!.args.batchId).to.eq(1n);
+      const returned = ethers.toBeHex(log!.args.encryptedAmount, 32);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, returned, tokenAddress, signers.alice)).to.eq(150n);
+
+      expect(await balanceOf(signers.alice)).to.eq(FUNDS);
+      const contribution = await treasury.encryptedContributions(1, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, contribution, treasuryAddress, signers.alice)).to.eq(0n);
+
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalInvestment).to.eq(30n);
+    });
+
+    it("rejects withdrawals without a contribution or after the batch closes", async function () {
+      await expect(treasury.connect(signers.bob).withdrawContribution()).to.be.revertedWithCustomError(
+        treasury,
+        "NotInitialized",
+      );
+      await expect(treasury.connect(signers.outsider).withdrawContribution()).to.be.revertedWithCustomError(
+        treasury,
+        "NotProvider",
+      );
+
+      await submit(signers.bob, 30);
+      await council(call.closeCurrentBatch());
+      await expect(treasury.connect(signers.bob).withdrawContribution()).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+      expect(await balanceOf(signers.bob)).to.eq(FUNDS - 30n);
+    });
+
+    it("disburses a closed batch's pool to the recipient through the timelock", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 30);
+      const recipient = signers.outsider.address;
+      await expect(treasury.disburseBatch(1, recipient)).to.be.revertedWithCustomError(treasury, "TimelockRequired");
+      await expect(proposed(call.disburseBatch(1, recipient))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+      await expect(timelocked(call.disburseBatch(1, recipient))).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+
+      await council(call.closeCurrentBatch());
+      await expect(timelocked(call.disburseBatch(1, treasuryAddress))).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+      await expect(timelocked(call.disburseBatch(1, recipient)))
+        .to.emit(treasury, "BatchDisbursed")
+        .withArgs(1, recipient, anyValue);
+      expect(await treasury.batchDisbursed(1)).to.eq(true);
+      expect(await balanceOf(signers.outsider)).to.eq(FUNDS + 130n);
+      await expect(timelocked(call.disburseBatch(1, recipient))).to.be.revertedWithCustomError(
+        treasury,
+        "AlreadyDisbursed",
+      );
+    });
+
+    it("approves, deposits and withdraws through TreasuryClient", async function () {
+      const client = new TreasuryClient(treasuryAddress, signers.bob);
+      await token.connect(signers.bob).setOperator(treasuryAddress, 0);
+      expect(await client.tokenAddress()).to.eq(tokenAddress);
+      expect(await client.isTreasuryOperator(signers.bob.address)).to.eq(false);
+
+      await client.approveTreasury((await time.latest()) + 3600);
+      expect(await client.isTreasuryOperator(signers.bob.address)).to.eq(true);
+      const input = await encrypt(signers.bob, 25);
+      await client.submitEncryptedInvestment(input.handles[0], input.inputProof);
+
+      const { event } = await client.withdrawContribution();
+      expect(event.args.provider).to.eq(signers.bob.address);
+      const balance = await client.getTokenBalance(signers.bob.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signers.bob)).to.eq(FUNDS);
+    });
+  });
+
+  describe("settlement", function () {
+    async function revealBatch() {
+      await council(call.closeCurrentBatch());
+      await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    async function depositReturns(signer: HardhatEthersSigner, amount: bigint | number, batchId = 1) {
+      const input = await encrypt(signer, amount);
+      return treasury.connect(signer).depositReturns(batchId, input.handles[0], input.inputProof);
+    }
+
+    async function settle(amount: bigint | number, batchId = 1) {
+      await depositReturns(signers.deployer, amount, batchId);
+      return council(call.settleBatch(batchId));
+    }
+
+    async function payoutOf(signer: HardhatEthersSigner) {
+      const handle = await treasury.encryptedPayouts(1, signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, treasuryAddress, signer);
+    }
+
+    beforeEach(async function () {
+      await submit(signers.alice, 60);
+      await submit(signers.bob, 30);
+      await submit(signers.deployer, 10);
+    });
+
+    it("records the revealed total for settlement", async function () {
+      expect(await treasury.batchTotalRevealed(1)).to.eq(false);
+      await revealBatch();
+      expect(await treasury.batchTotalRevealed(1)).to.eq(true);
+      expect(await treasury.revealedTotalInvestment(1)).to.eq(100n);
+    });
+
+    it("pays each contributor its pro-rata share of the returns", async function () {
+      await revealBatch();
+      await expect(settle(1000)).to.emit(treasury, "BatchSettled");
+      expect(await treasury.batchSettled(1)).to.eq(true);
+
+      for (const signer of [signers.alice, signers.bob, signers.deployer]) {
+        await expect(treasury.connect(signer).claimPayout(1)).to.emit(treasury, "PayoutClaimed");
+        expect(await treasury.hasClaimed(1, signer.address)).to.eq(true);
+      }
+      expect(await payoutOf(signers.alice)).to.eq(600n);
+      expect(await payoutOf(signers.bob)).to.eq(300n);
+      expect(await payoutOf(signers.deployer)).to.eq(100n);
+
+      expect(await balanceOf(signers.alice)).to.eq(FUNDS - 60n + 600n);
+      expect(await balanceOf(signers.deployer)).to.eq(FUNDS - 10n - 1000n + 100n);
+      await expect(fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await treasury.encryptedPayouts(1, signers.alice.address),
+        treasuryAddress,
+        signers.bob,
+      )).to.be.rejected;
+    });
+
+    it("rounds payouts down", async function () {
+      await revealBatch();
+      await settle(7);
+      await treasury.connect(signers.bob).claimPayout(1);
+      expect(await payoutOf(signers.bob)).to.eq(2n);
+    });
+
+    it("keeps paying a contributor that is no longer a provider", async function () {
+      await revealBatch();
+      await settle(200);
+      await timelocked(call.removeProvider(signers.bob.address));
+      await treasury.connect(signers.bob).claimPayout(1);
+      expect(await payoutOf(signers.bob)).to.eq(60n);
+    });
+
+    it("adds up returns paid in by several accounts", async function () {
+      await revealBatch();
+      await expect(depositReturns(signers.outsider, 400)).to.emit(treasury, "ReturnsDeposited");
+      await settle(600);
+
+      await treasury.connect(signers.alice).claimPayout(1);
+      expect(await payoutOf(signers.alice)).to.eq(600n);
+      expect(await balanceOf(signers.outsider)).to.eq(FUNDS - 400n);
+    });
+
+    it("takes returns for revealed batches only and settles them once, by the council", async function () {
+      await expect(depositReturns(signers.deployer, 1000)).to.be.revertedWithCustomError(treasury, "TotalNotRevealed");
+      await revealBatch();
+      await expect(council(call.settleBatch(1))).to.be.revertedWithCustomError(treasury, "NotInitialized");
+      await depositReturns(signers.deployer, 1000);
+      await expect(treasury.settleBatch(1)).to.be.revertedWithCustomError(treasury, "CouncilApprovalRequired");
+
+      await council(call.settleBatch(1));
+      await expect(council(call.settleBatch(1))).to.be.revertedWithCustomError(treasury, "AlreadySettled");
+      await expect(depositReturns(signers.deployer, 1000)).to.be.revertedWithCustomError(treasury, "AlreadySettled");
+    });
+
+    it("rejects claims before settlement, without a contribution or twice", async function () {
+      await expect(treasury.connect(signers.alice).claimPayout(1)).to.be.revertedWithCustomError(
+        treasury,
+        "NotSettled",
+      );
+      await revealBatch();
+      await settle(1000);
+
+      await expect(treasury.connect(signers.outsider).claimPayout(1)).to.be.revertedWithCustomError(
+        treasury,
+        "NotInitialized",
+      );
+      await treasury.connect(signers.alice).claimPayout(1);
+      await expect(treasury.connect(signers.alice).claimPayout(1)).to.be.revertedWithCustomError(
+        treasury,
+        "AlreadyClaimed",
+      );
+    });
+
+    it("reports settlement and payout state through TreasuryClient", async function () {
+      await revealBatch();
+      const client = new TreasuryClient(treasuryAddress, signers.alice);
+      expect((await client.getBatch(1)).settled).to.eq(false);
+
+      const admin = client.connect(signers.deployer);
+      const input = await encrypt(signers.deployer, 500);
+      const deposited = await admin.depositReturns(1, input.handles[0], input.inputProof);
+      expect(deposited.event.args.from).to.eq(signers.deployer.address);
+      const { event: proposal } = await admin.proposeSettleBatch(1);
+      await admin.executeCouncilAction(proposal.args.actionId);
+      expect((await client.getBatch(1)).settled).to.eq(true);
+      expect(await client.getPayoutStatus(1, signers.alice.address)).to.deep.eq({
+        claimed: false,
+        payout: ethers.ZeroHash,
+      });
+
+      const { event } = await client.claimPayout(1);
+      expect(event.args.batchId).to.eq(1n);
+      const status = await client.getPayoutStatus(1, signers.alice.address);
+      expect(status.claimed).to.eq(true);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, status.payout, treasuryAddress, signers.alice)).to.eq(
+        300n,
+      );
+    });
+  });
+
+  describe("decryption callback", function () {
+    it("records the ciphertext state hash with each request", async function () {
+      await submit(signers.alice, 5);
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+
+      const handle = await treasury.encryptedTotalInvestment(1);
+      const expected = ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(["bytes32[]", "address"], [[handle], treasuryAddress]),
+      );
+      const context = await treasury.decryptionContexts(requestId);
+      expect(context.batchId).to.eq(1n);
+      expect(context.stateHash).to.eq(expected);
+      expect(context.processed).to.eq(false);
+    });
+
+    it("rejects replaying a processed request", async function () {
+      await submit(signers.alice, 5);
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [5]);
+      await expect(treasury.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        treasury,
+        "ReplayAttempt",
+      );
+    });
+
+    it("rejects callbacks whose ciphertext state does not match the request", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [0]);
+      await expect(treasury.myCallback(999, cleartexts, "0x")).to.be.revertedWithCustomError(
+        treasury,
+        "StateMismatch",
+      );
+    });
+
+    it("rejects callbacks without valid KMS signatures", async function () {
+      await submit(signers.alice, 5);
+      await council(call.closeCurrentBatch());
+      const requestId = await decryptionRequestId(1);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [1_000_000]);
+      await expect(treasury.connect(signers.outsider).myCallback(requestId, forged, "0x")).to.be.reverted;
+      expect((await treasury.decryptionContexts(requestId)).processed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await treasury.queryFilter(treasury.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalInvestment).to.eq(5n);
+    });
+  });
+
+  describe("funding target", function () {
+    // Council actions run as calls from the treasury, so the target is encrypted for the treasury itself.
+    async function setTarget(amount: number, batchId = 1) {
+      const input = await fhevm.createEncryptedInput(treasuryAddress, treasuryAddress).add64(amount).encrypt();
+      return council(call.setFundingTarget(batchId, input.handles[0], input.inputProof));
+    }
+
+    async function checkTarget(batchId = 1, signer: HardhatEthersSigner = signers.alice) {
+      await treasury.connect(signer).requestFundingTargetCheck(batchId);
+      await fhevm.awaitDecryptionOracle();
+      return treasury.fundingTargetReached(batchId);
+    }
+
+    it("reveals only whether the total reached the target", async function () {
+      await expect(setTarget(120)).to.emit(treasury, "FundingTargetSet").withArgs(1);
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 20);
+      await council(call.closeCurrentBatch());
+
+      await expect(treasury.connect(signers.alice).requestFundingTargetCheck(1)).to.emit(
+        treasury,
+        "FundingTargetCheckRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [checked] = await treasury.queryFilter(treasury.filters.FundingTargetChecked());
+      expect(checked.args.batchId).to.eq(1n);
+      expect(checked.args.reached).to.eq(true);
+      expect(await treasury.fundingTargetChecked(1)).to.eq(true);
+      expect(await treasury.batchTotalRevealed(1)).to.eq(false);
+      expect(await treasury.queryFilter(treasury.filters.DecryptionCompleted())).to.have.length(0);
+    });
+
+    it("reports a missed target", async function () {
+      await setTarget(200);
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 99);
+      await council(call.closeCurrentBatch());
+
+      expect(await checkTarget()).to.eq(false);
+      expect(await treasury.fundingTargetChecked(1)).to.eq(true);
+    });
+
+    it("lets only the council set targets, and only on open batches", async function () {
+      const input = await fhevm.createEncryptedInput(treasuryAddress, treasuryAddress).add64(10).encrypt();
+      await expect(
+        treasury.setFundingTarget(1, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(treasury, "CouncilApprovalRequired");
+
+      await expect(setTarget(10, 2)).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+      await council(call.closeCurrentBatch());
+      await expect(setTarget(10)).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+    });
+
+    it("checks closed batches with a target and contributions, once", async function () {
+      await submit(signers.alice, 50);
+      await expect(
+        treasury.connect(signers.alice).requestFundingTargetCheck(1),
+      ).to.be.revertedWithCustomError(treasury, "BatchClosedOrInvalid");
+      await council(call.closeCurrentBatch());
+      await expect(
+        treasury.connect(signers.alice).requestFundingTargetCheck(1),
+      ).to.be.revertedWithCustomError(treasury, "NotInitialized");
+
+      await council(call.openNewBatch());
+      await setTarget(50, 2);
+      await submit(signers.bob, 50);
+      await council(call.closeCurrentBatch());
+      await expect(
+        treasury.connect(signers.outsider).requestFundingTargetCheck(2),
+      ).to.be.revertedWithCustomError(treasury, "NotProvider");
+      expect(await checkTarget(2, signers.bob)).to.eq(true);
+
+      await time.increase(cooldown);
+      await expect(
+        treasury.connect(signers.bob).requestFundingTargetCheck(2),
+      ).to.be.revertedWithCustomError(treasury, "TargetAlreadyChecked");
+    });
+
+    it("shares a pending check instead of recomputing it", async function () {
+      await setTarget(40);
+      await submit(signers.alice, 30);
+      await submit(signers.bob, 20);
+      await council(call.closeCurrentBatch());
+
+      const first = parsedLog(
+        await (await treasury.connect(signers.alice).requestFundingTargetCheck(1)).wait(),
+        "FundingTargetCheckRequested",
+      )!.args.requestId;
+      const reached = await treasury.encryptedTargetReached(1);
+      await expect(treasury.connect(signers.bob).requestFundingTargetCheck(1))
+        .to.emit(treasury, "FundingTargetCheckRequested")
+        .withArgs(first, 1);
+      expect(await treasury.encryptedTargetReached(1)).to.eq(reached);
+      expect(await treasury.lastDecryptionRequestTime(signers.bob.address)).to.eq(0n);
+
+      await fhevm.awaitDecryptionOracle();
+      const checked = await treasury.queryFilter(treasury.filters.FundingTargetChecked());
+      expect(checked.map((event) => [event.args.requestId, event.args.reached])).to.deep.eq([[first, true]]);
+      expect(await treasury.targetCheckPending(1)).to.eq(false);
+    });
+
+    it("rejects replayed target callbacks", async function () {
+      await setTarget(10);
+      await submit(signers.alice, 10);
+      await council(call.closeCurrentBatch());
+      await checkTarget();
+
+      const [requested] = await treasury.queryFilter(treasury.filters.FundingTargetCheckRequested());
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [false]);
+      await expect(
+        treasury.fundingTargetCallback(requested.args.requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(treasury, "ReplayAttempt");
+    });
+
+    it("reports the target state through TreasuryClient", async function () {
+      const client = new TreasuryClient(treasuryAddress, signers.alice);
+      expect((await client.getBatch(1)).fundingTarget).to.eq("none");
+
+      await setTarget(30);
+      await submit(signers.alice, 20);
+      await council(call.closeCurrentBatch());
+      const status = await client.getProviderStatus(signers.alice.address);
+      const batch = await client.getBatch(1);
+      expect(batch.fundingTarget).to.eq("unchecked");
+      expect(targetCheckBlocker(status, batch)).to.eq(null);
+
+      await client.requestFundingTargetCheck(1);
+      await fhevm.awaitDecryptionOracle();
+      const checked = await client.getBatch(1);
+      expect(checked.fundingTarget).to.eq("unmet");
+      expect(targetCheckBlocker(status, checked)).to.eq("TargetAlreadyChecked");
+    });
+  });
+
+  describe("proposals and voting", function () {
+    const VOTING_PERIOD = 3600;
+
+    beforeEach(async function () {
+      await submit(signers.alice, 60);
+      await submit(signers.bob, 30);
+      await submit(signers.deployer, 10);
+      await council(call.closeCurrentBatch());
+      await treasury.connect(signers.alice).createProposal(1, "Allocate batch 1 to staked ETH", VOTING_PERIOD);
+    });
+
+    it("creates proposals tied to an existing batch", async function () {
+      const proposal = await treasury.proposals(1);
+      expect(await treasury.proposalCount()).to.eq(1n);
+      expect(proposal.batchId).to.eq(1n);
+      expect(proposal.proposer).to.eq(signers.alice.address);
+      expect(proposal.description).to.eq("Allocate batch 1 to staked ETH");
+      expect(proposal.tallyRevealed).to.eq(false);
+
+      await expect(treasury.connect(signers.bob).createProposal(1, "Second", VOTING_PERIOD))
+        .to.emit(treasury, "ProposalCreated")
+        .withArgs(2, 1, signers.bob.address, (await time.latest()) + 1 + VOTING_PERIOD, "Second");
+    });
+
+    it("rejects invalid proposals", async function () {
+      await expect(
+        treasury.connect(signers.outsider).createProposal(1, "x", VOTING_PERIOD),
+      ).to.be.revertedWithCustomError(treasury, "NotProvider");
+      await expect(treasury.createProposal(0, "x", VOTING_PERIOD)).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+      await expect(treasury.createProposal(2, "x", VOTING_PERIOD)).to.be.revertedWithCustomError(
+        treasury,
+        "BatchClosedOrInvalid",
+      );
+      await expect(treasury.createProposal(1, "x", 0)).to.be.revertedWithCustomError(treasury, "InvalidParameter");
+      await expect(treasury.createProposal(1, "", VOTING_PERIOD)).to.be.revertedWithCustomError(
+        treasury,
+        "InvalidParameter",
+      );
+    });
+
+    it("accepts one encrypted vote per provider", async function () {
+      await expect(vote(signers.alice, 1, true)).to.emit(treasury, "VoteCast").withArgs(1, signers.alice.address);
+      expect(await treasury.hasVoted(1, signers.alice.address)).to.eq(true);
+      expect(await treasury.numVotes(1)).to.eq(1n);
+
+      await expect(vote(signers.alice, 1, false)).to.be.revertedWithCustomError(treasury, "AlreadyVoted");
+      await expect(vote(signers.outsider, 1, true)).to.be.revertedWithCustomError(treasury, "NotProvider");
+      await expect(vote(signers.bob, 2, true)).to.be.revertedWithCustomError(treasury, "UnknownProposal");
+    });
+
+    it("rejects providers without a contribution to the proposal's batch", async function () {
+      await council(call.addProvider(signers.outsider.address));
+      await expect(vote(signers.outsider, 1, true)).to.be.revertedWithCustomError(treasury, "NoVotingPower");
+
+      await council(call.openNewBatch());
+      await submit(signers.outsider, 500);
+      await expect(vote(signers.outsider, 1, true)).to.be.revertedWithCustomError(treasury, "NoVotingPower");
+    });
+
+    it("lets only the voter decrypt its voting weight", async function () {
+      await vote(signers.alice, 1, true);
+      const weight = await treasury.encryptedVotingWeight(1, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, weight, treasuryAddress, signers.alice)).to.eq(60n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, weight, treasuryAddress, signers.bob)).to.be.rejected;
+      expect(await treasury.encryptedVotingWeight(1, signers.bob.address)).to.eq(ethers.ZeroHash);
+    });
+
+    it("closes voting at the deadline", async function () {
+      await time.increase(VOTING_PERIOD);
+      await expect(vote(signers.alice, 1, true)).to.be.revertedWithCustomError(treasury, "VotingClosed");
+    });
+
+    it("refuses to reveal the tally before the deadline", async function () {
+      await vote(signers.alice, 1, true);
+      await expect(treasury.connect(signers.alice).requestTallyDecryption(1)).to.be.revertedWithCustomError(
+        treasury,
+        "VotingOpen",
+      );
+    });
+
+    it("reveals the contribution-weighted tally through the decryption oracle", async function () {
+      await vote(signers.alice, 1, true);
+      await vote(signers.bob, 1, false);
+      await vote(signers.deployer, 1, true);
+      await time.increase(VOTING_PERIOD);
+
+      await expect(treasury.connect(signers.alice).requestTallyDecryption(1)).to.emit(treasury, "TallyRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await treasury.queryFilter(treasury.filters.TallyRevealed(undefined, 1));
+      expect(revealed.args.yesVotes).to.eq(70n);
+      expect(revealed.args.noVotes).to.eq(30n);
+
+      const proposal = await treasury.proposals(1);
+      expect(proposal.tallyRevealed).to.eq(true);
+      expect(proposal.yesVotes).to.eq(70n);
+      expect(proposal.noVotes).to.eq(30n);
+      expect(await treasury.numVotes(1)).to.eq(3n);
+
+      await time.increase(cooldown);
+      await expect(treasury.connect(signers.alice).requestTallyDecryption(1)).to.be.revertedWithCustomError(
+        treasury,
+        "TallyAlreadyRevealed",
+      );
+    });
+
+    it("only accepts proposals once the batch is closed", async function () {
+      await council(call.openNewBatch());
+      await time.increase(cooldown);
+      await submit(signers.alice, 600);
+      await expect(
+        treasury.connect(signers.alice).createProposal(2, "Batch 2 proposal", VOTING_PERIOD),
+      ).to.be.revertedWithCustomError(treasury, "BatchStillOpen");
+
+      await council(call.closeCurrentBatch());
+      await treasury.connect(signers.alice).createProposal(2, "Batch 2 proposal", VOTING_PERIOD);
+      await expect(vote(signers.alice, 2, true)).to.emit(treasury, "VoteCast");
+    });
+
+    it("lets a large contributor outweigh several small ones", async function () {
+      await council(call.openNewBatch());
+      await time.increase(cooldown);
+      await submit(signers.alice, 600);
+      await submit(signers.bob, 150);
+      await submit(signers.deployer, 250);
+      await council(call.closeCurrentBatch());
+      await treasury.connect(signers.bob).createProposal(2, "Batch 2 proposal", VOTING_PERIOD);
+
+      await vote(signers.alice, 2, false);
+      await vote(signers.bob, 2, true);
+      await vote(signers.deployer, 2, true);
+      await time.increase(VOTING_PERIOD);
+      await treasury.connect(signers.bob).requestTallyDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+
+      const proposal = await treasury.proposals(2);
+      expect(proposal.yesVotes).to.eq(400n);
+      expect(proposal.noVotes).to.eq(600n);
+    });
+
+    it("reveals a zero tally when nobody voted", async function () {
+      await time.increase(VOTING_PERIOD);
+      await treasury.connect(signers.alice).requestTallyDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const proposal = await treasury.proposals(1);
+      expect(proposal.tallyRevealed).to.eq(true);
+      expect(proposal.yesVotes).to.eq(0n);
+      expect(proposal.noVotes).to.eq(0n);
+    });
+
+    it("rejects replayed and mismatched tally callbacks", async function () {
+      await vote(signers.alice, 1, true);
+      await time.increase(VOTING_PERIOD);
+      const receipt = await (await treasury.connect(signers.alice).requestTallyDecryption(1)).wait();
+      const requestId = receipt!.logs
+        .map((entry) => treasury.interface.parseLog(entry))
+        .find((parsed) => parsed?.name === "TallyRequested")!.args.requestId;
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "uint64"], [1, 0]);
+      await expect(treasury.tallyCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        treasury,
+        "ReplayAttempt",
+      );
+      await expect(treasury.tallyCallback(999, cleartexts, "0x")).to.be.revertedWithCustomError(
+        treasury,
+        "StateMismatch",
+      );
+    });
+
+    it("reports tally progress through TreasuryClient", async function () {
+      const client = new TreasuryClient(treasuryAddress, signers.alice);
+      const input = await fhevm.createEncryptedInput(treasuryAddress, signers.alice.address).addBool(false).encrypt();
+      await client.castVote(1, input.handles[0], input.inputProof);
+      expect((await client.listProposals())[0].tally).to.eq("none");
+
+      await time.increase(VOTING_PERIOD);
+      await client.requestTallyDecryption(1);
+      expect((await client.listProposals())[0].tally).to.eq("requested");
+
+      await fhevm.awaitDecryptionOracle();
+      const [summary] = await client.listProposals();
+      expect(summary.tally).to.eq("revealed");
+      expect(summary.votes).to.eq(1n);
+      expect(summary.noVotes).to.eq(60n);
+
+      const voter = await client.getVoterStatus(summary, signers.alice.address);
+      expect(voter.hasVoted).to.eq(true);
+      expect(voter.votingWeight).to.not.eq(ethers.ZeroHash);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import { AMOUNT_DECIMALS, formatAmount, MAX_AMOUNT, parseAmount } from "../src/amounts";
+
+describe("amounts", function () {
+  it("parses decimal strings into base units", function () {
+    expect(parseAmount("1250.5")).to.eq(1250_500000n);
+    expect(parseAmount(" 7 ")).to.eq(7_000000n);
+    expect(parseAmount(".25")).to.eq(250000n);
+    expect(parseAmount("3.")).to.eq(3_000000n);
+    expect(parseAmount("0.000001")).to.eq(1n);
+    expect(parseAmount("0")).to.eq(0n);
+    expect(parseAmount("1.5", 2)).to.eq(150n);
+  });
+
+  it("rejects more than the supported decimal places", function () {
+    expect(() => parseAmount("0.0000001")).to.throw(`at most ${AMOUNT_DECIMALS} decimal places`);
+    expect(() => parseAmount("1.123", 2)).to.throw("at most 2 decimal places");
+  });
+
+  it("rejects negative, empty and malformed input", function () {
+    for (const text of ["-1", "-0.5", "", "   ", ".", "1e6", "1,000", "0x10", "1.2.3", "abc"]) {
+      expect(() => parseAmount(text), text).to.throw("Amount must be a positive decimal number");
+    }
+  });
+
+  it("accepts exactly MAX_AMOUNT and nothing past it", function () {
+    const max = formatAmount(MAX_AMOUNT);
+    expect(max).to.eq("18446744073709.551615");
+    expect(parseAmount(max)).to.eq(MAX_AMOUNT);
+    expect(() => parseAmount("18446744073709.551616")).to.throw(`exceeds the encrypted 64-bit range (max ${max})`);
+    expect(() => parseAmount("18446744073710")).to.throw("exceeds the encrypted 64-bit range");
+  });
+
+  it("formats base units without a trailing .0", function () {
+    expect(formatAmount(7_000000n)).to.eq("7");
+    expect(formatAmount(1250_500000n)).to.eq("1250.5");
+    expect(formatAmount(1n)).to.eq("0.000001");
+    expect(formatAmount(0n)).to.eq("0");
+  });
+
+  it("round-trips through formatAmount", function () {
+    for (const value of [0n, 1n, 999999n, 1_000000n, 1250_500000n, 10_000000_000000n, MAX_AMOUNT - 1n, MAX_AMOUNT]) {
+      expect(parseAmount(formatAmount(value)), value.toString()).to.eq(value);
+    }
+    for (const text of ["0.000001", "1250.5", "42", "18446744073709.551615"]) {
+      expect(formatAmount(parseAmount(text)), text).to.eq(text);
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { Interface } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { TreasuryClient } from "../src/TreasuryClient";
+import { decodeTreasuryError, explainTreasuryErrorName, formatTreasuryError } from "../src/treasuryErrors";
+import {
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  CrossDaoTreasuryFHE,
+  CrossDaoTreasuryFHE__factory,
+} from "../types";
+
+// A call error carrying the revert data of custom error `name`, as ethers reports it.
+function revert(iface: Interface, name: string) {
+  const fragment = iface.getError(name)!;
+  const args = fragment.inputs.map((input) => (input.baseType === "address" ? ethers.ZeroAddress : 1));
+  return { code: "CALL_EXCEPTION", data: iface.encodeErrorResult(fragment, args) };
+}
+
+describe("treasuryErrors", function () {
+  for (const [contract, iface] of [
+    ["CrossDaoTreasuryFHE", CrossDaoTreasuryFHE__factory.createInterface()],
+    ["ConfidentialToken", ConfidentialToken__factory.createInterface()],
+  ] as [string, Interface][]) {
+    it(`explains every ${contract} custom error`, function () {
+      const names: string[] = [];
+      iface.forEachError((fragment) => names.push(fragment.name));
+      expect(names).to.not.be.empty;
+
+      for (const name of names) {
+        const decoded = decodeTreasuryError(revert(iface, name));
+        expect(decoded, name).to.deep.eq(explainTreasuryErrorName(name));
+        expect(decoded!.message, name).to.not.eq(`Contract reverts with ${name}`);
+      }
+    });
+  }
+
+  it("finds revert data nested in wallet errors", function () {
+    const { data } = revert(CrossDaoTreasuryFHE__factory.createInterface(), "NotProvider");
+    expect(decodeTreasuryError({ error: { info: { error: { data } } } })?.name).to.eq("NotProvider");
+  });
+
+  it("falls through for unknown revert data and other errors", async function () {
+    for (const error of [{ data: "0xdeadbeef" }, { data: "0x" }, new Error("network down"), null]) {
+      expect(decodeTreasuryError(error)).to.eq(null);
+    }
+    const unknownRevert = { data: "0xdeadbeef", shortMessage: "execution reverted" };
+    expect(await formatTreasuryError(unknownRevert, "Submit failed")).to.eq("Submit failed: execution reverted");
+    expect(await formatTreasuryError(new Error("network down"), "Submit failed")).to.eq("Submit failed: network down");
+    expect(await formatTreasuryError(null, "Submit failed")).to.eq("Submit failed: Unknown error");
+    const rejected = { code: "ACTION_REJECTED" };
+    expect(await formatTreasuryError(rejected, "Submit failed")).to.eq("Transaction rejected by user");
+  });
+
+  it("joins the message and suggestion", async function () {
+    const error = revert(CrossDaoTreasuryFHE__factory.createInterface(), "NotProvider");
+    const { message, suggestion } = explainTreasuryErrorName("NotProvider");
+    expect(suggestion).to.not.eq(undefined);
+    expect(await formatTreasuryError(error, "Submit failed")).to.eq(`${message}. ${suggestion}`);
+  });
+
+  describe("cooldown", function () {
+    let deployer: HardhatEthersSigner;
+    let treasury: CrossDaoTreasuryFHE;
+    let treasuryAddress: string;
+
+    async function submit() {
+      const input = await fhevm.createEncryptedInput(treasuryAddress, deployer.address).add64(10).encrypt();
+      return treasury.submitEncryptedInvestment(input.handles[0], input.inputProof);
+    }
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+
+      [deployer] = await ethers.getSigners();
+      const tokenFactory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+      const token = (await tokenFactory.deploy("Confidential DAO Dollar", "cDAOD")) as ConfidentialToken;
+      const factory = (await ethers.getContractFactory("CrossDaoTreasuryFHE")) as CrossDaoTreasuryFHE__factory;
+      treasury = (await factory.deploy(await token.getAddress(), [deployer.address], 1)) as CrossDaoTreasuryFHE;
+      treasuryAddress = await treasury.getAddress();
+      await token.mint(deployer.address, 1000);
+      await token.setOperator(treasuryAddress, (await time.latest()) + 86400);
+      await submit();
+    });
+
+    it("reports the seconds left on the caller's cooldown", async function () {
+      const error = await submit().then(
+        () => expect.fail("expected the second submission to revert"),
+        (e: unknown) => e,
+      );
+      const client = new TreasuryClient(treasuryAddress, deployer);
+      const endsAt = (await treasury.lastSubmissionTime(deployer)) + (await treasury.cooldownSeconds());
+      const remaining = Number(endsAt) - (await time.latest());
+
+      expect(decodeTreasuryError(error)?.name).to.eq("CooldownActive");
+      const submitContext = { client, account: deployer.address, action: "submit" as const };
+      expect(await formatTreasuryError(error, "Submit failed", submitContext)).to.eq(
+        `Cooldown ends in ${remaining} s. Try again once it has ended`,
+      );
+      // The deployer never requested a decryption, so that cooldown is over and the static text stays.
+      const { message, suggestion } = explainTreasuryErrorName("CooldownActive");
+      const decryptContext = { client, account: deployer.address, action: "decrypt" as const };
+      expect(await formatTreasuryError(error, "Decrypt failed", decryptContext)).to.eq(`${message}. ${suggestion}`);
+    });
+  });
+});
@@ -0,0 +1,2850 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface CrossDaoTreasuryFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AMOUNT_DECIMALS"
+      | "MAXIMUM_TIMELOCK_DELAY"
+      | "MINIMUM_TIMELOCK_DELAY"
+      | "TIMELOCK_GRACE_PERIOD"
+      | "addCouncilMember"
+      | "addProvider"
+      | "approveCouncilAction"
+      | "batchClosed"
+      | "batchClosesAt"
+      | "batchDisbursed"
+      | "batchMaxContributions"
+      | "batchSettled"
+      | "batchTotalRevealed"
+      | "batchWindowElapsed"
+      | "cancelOperation"
+      | "castVote"
+      | "claimPayout"
+      | "closeCurrentBatch"
+      | "closeElapsedBatch"
+      | "cooldownSeconds"
+      | "councilActionCount"
+      | "councilActions"
+      | "councilApprovals"
+      | "councilThreshold"
+      | "createProposal"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "depositReturns"
+      | "disburseBatch"
+      | "encryptedContributions"
+      | "encryptedFundingTarget"
+      | "encryptedNoVotes"
+      | "encryptedPayouts"
+      | "encryptedReturnedAmount"
+      | "encryptedTargetReached"
+      | "encryptedTotalInvestment"
+      | "encryptedVotingWeight"
+      | "encryptedYesVotes"
+      | "executeCouncilAction"
+      | "executeOperation"
+      | "fundingTargetCallback"
+      | "fundingTargetChecked"
+      | "fundingTargetReached"
+      | "getCouncilMembers"
+      | "hasApprovedAction"
+      | "hasClaimed"
+      | "hasVoted"
+      | "isCouncilMember"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "numContributionsBy"
+      | "numContributionsInBatch"
+      | "numVotes"
+      | "openNewBatch"
+      | "operationCount"
+      | "operations"
+      | "paused"
+      | "proposalCount"
+      | "proposals"
+      | "proposeCouncilAction"
+      | "protocolId"
+      | "queueOperation"
+      | "removeCouncilMember"
+      | "removeProvider"
+      | "requestBatchTotalDecryption"
+      | "requestFundingTargetCheck"
+      | "requestTallyDecryption"
+      | "revealedTotalInvestment"
+      | "revokeCouncilApproval"
+      | "setCooldownSeconds"
+      | "setCouncilThreshold"
+      | "setFundingTarget"
+      | "setPaused"
+      | "setTimelockDelay"
+      | "settleBatch"
+      | "submitEncryptedInvestment"
+      | "tallyCallback"
+      | "tallyContexts"
+      | "targetCheckContexts"
+      | "targetCheckPending"
+      | "targetCheckRequestId"
+      | "timelockDelay"
+      | "token"
+      | "withdrawContribution"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchDisbursed"
+      | "BatchOpened"
+      | "BatchSettled"
+      | "ContributionWithdrawn"
+      | "CooldownSecondsSet"
+      | "CouncilActionApproved"
+      | "CouncilActionExecuted"
+      | "CouncilActionProposed"
+      | "CouncilApprovalRevoked"
+      | "CouncilMemberAdded"
+      | "CouncilMemberRemoved"
+      | "CouncilThresholdSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "FundingTargetCheckRequested"
+      | "FundingTargetChecked"
+      | "FundingTargetSet"
+      | "InvestmentSubmitted"
+      | "OperationCancelled"
+      | "OperationExecuted"
+      | "OperationQueued"
+      | "PauseToggled"
+      | "PayoutClaimed"
+      | "ProposalCreated"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "ReturnsDeposited"
+      | "TallyRequested"
+      | "TallyRevealed"
+      | "TimelockDelaySet"
+      | "VoteCast"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AMOUNT_DECIMALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAXIMUM_TIMELOCK_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MINIMUM_TIMELOCK_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TIMELOCK_GRACE_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCouncilMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveCouncilAction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchClosed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchClosesAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchDisbursed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchMaxContributions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSettled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchTotalRevealed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchWindowElapsed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimPayout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeCurrentBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeElapsedBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "councilActionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "councilActions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "councilApprovals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "councilThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createProposal",
+    values: [BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositReturns",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disburseBatch",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedContributions",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedFundingTarget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedNoVotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPayouts",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedReturnedAmount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedTargetReached",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedTotalInvestment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedVotingWeight",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedYesVotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeCouncilAction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundingTargetCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundingTargetChecked",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundingTargetReached",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCouncilMembers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasApprovedAction",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasClaimed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCouncilMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "numContributionsBy",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "numContributionsInBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "numVotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openNewBatch",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operationCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeCouncilAction",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueOperation",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeCouncilMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchTotalDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestFundingTargetCheck",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedTotalInvestment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeCouncilApproval",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCouncilThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFundingTarget",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setTimelockDelay",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedInvestment",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "targetCheckContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "targetCheckPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "targetCheckRequestId",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawContribution",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AMOUNT_DECIMALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAXIMUM_TIMELOCK_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MINIMUM_TIMELOCK_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TIMELOCK_GRACE_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCouncilMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveCouncilAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchClosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchClosesAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchDisbursed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchMaxContributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSettled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchTotalRevealed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchWindowElapsed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimPayout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeCurrentBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeElapsedBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "councilActionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "councilActions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "councilApprovals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "councilThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositReturns",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disburseBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedContributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedFundingTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedNoVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPayouts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedReturnedAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedTargetReached",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedTotalInvestment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedVotingWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedYesVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeCouncilAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundingTargetCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundingTargetChecked",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundingTargetReached",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCouncilMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasApprovedAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasClaimed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isCouncilMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "numContributionsBy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "numContributionsInBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "numVotes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openNewBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "operationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "operations", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proposals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeCouncilAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queueOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeCouncilMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchTotalDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestFundingTargetCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedTotalInvestment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeCouncilApproval",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCouncilThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFundingTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTimelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedInvestment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "targetCheckContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "targetCheckPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "targetCheckRequestId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawContribution",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchDisbursedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    recipient: AddressLike,
+    encryptedAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    recipient: string,
+    encryptedAmount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    recipient: string;
+    encryptedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    closesAt: BigNumberish,
+    maxContributions: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    closesAt: bigint,
+    maxContributions: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    closesAt: bigint;
+    maxContributions: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchSettledEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    encryptedReturnedAmount: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, encryptedReturnedAmount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    encryptedReturnedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContributionWithdrawnEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedAmount: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilActionApprovedEvent {
+  export type InputTuple = [actionId: BigNumberish, member: AddressLike];
+  export type OutputTuple = [actionId: bigint, member: string];
+  export interface OutputObject {
+    actionId: bigint;
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilActionExecutedEvent {
+  export type InputTuple = [actionId: BigNumberish, executor: AddressLike];
+  export type OutputTuple = [actionId: bigint, executor: string];
+  export interface OutputObject {
+    actionId: bigint;
+    executor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilActionProposedEvent {
+  export type InputTuple = [
+    actionId: BigNumberish,
+    proposer: AddressLike,
+    selector: BytesLike,
+    data: BytesLike
+  ];
+  export type OutputTuple = [
+    actionId: bigint,
+    proposer: string,
+    selector: string,
+    data: string
+  ];
+  export interface OutputObject {
+    actionId: bigint;
+    proposer: string;
+    selector: string;
+    data: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilApprovalRevokedEvent {
+  export type InputTuple = [actionId: BigNumberish, member: AddressLike];
+  export type OutputTuple = [actionId: bigint, member: string];
+  export interface OutputObject {
+    actionId: bigint;
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilMemberAddedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilMemberRemovedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CouncilThresholdSetEvent {
+  export type InputTuple = [
+    oldThreshold: BigNumberish,
+    newThreshold: BigNumberish
+  ];
+  export type OutputTuple = [oldThreshold: bigint, newThreshold: bigint];
+  export interface OutputObject {
+    oldThreshold: bigint;
+    newThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalInvestment: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalInvestment: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalInvestment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundingTargetCheckRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundingTargetCheckedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    reached: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    reached: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    reached: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundingTargetSetEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InvestmentSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedAmount: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationCancelledEvent {
+  export type InputTuple = [operationId: BigNumberish];
+  export type OutputTuple = [operationId: bigint];
+  export interface OutputObject {
+    operationId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationExecutedEvent {
+  export type InputTuple = [operationId: BigNumberish];
+  export type OutputTuple = [operationId: bigint];
+  export interface OutputObject {
+    operationId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationQueuedEvent {
+  export type InputTuple = [
+    operationId: BigNumberish,
+    selector: BytesLike,
+    data: BytesLike,
+    eta: BigNumberish
+  ];
+  export type OutputTuple = [
+    operationId: bigint,
+    selector: string,
+    data: string,
+    eta: bigint
+  ];
+  export interface OutputObject {
+    operationId: bigint;
+    selector: string;
+    data: string;
+    eta: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [isPaused: boolean];
+  export type OutputTuple = [isPaused: boolean];
+  export interface OutputObject {
+    isPaused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutClaimedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedPayout: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedPayout: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedPayout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCreatedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    batchId: BigNumberish,
+    proposer: AddressLike,
+    deadline: BigNumberish,
+    description: string
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    batchId: bigint,
+    proposer: string,
+    deadline: bigint,
+    description: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    batchId: bigint;
+    proposer: string;
+    deadline: bigint;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReturnsDepositedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    from: AddressLike,
+    encryptedAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    from: string,
+    encryptedAmount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    from: string;
+    encryptedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, proposalId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, proposalId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRevealedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    proposalId: BigNumberish,
+    yesVotes: BigNumberish,
+    noVotes: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    proposalId: bigint,
+    yesVotes: bigint,
+    noVotes: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+    yesVotes: bigint;
+    noVotes: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimelockDelaySetEvent {
+  export type InputTuple = [oldDelay: BigNumberish, newDelay: BigNumberish];
+  export type OutputTuple = [oldDelay: bigint, newDelay: bigint];
+  export interface OutputObject {
+    oldDelay: bigint;
+    newDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [proposalId: BigNumberish, voter: AddressLike];
+  export type OutputTuple = [proposalId: bigint, voter: string];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CrossDaoTreasuryFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): CrossDaoTreasuryFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: CrossDaoTreasuryFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AMOUNT_DECIMALS: TypedContractMethod<[], [bigint], "view">;
+
+  MAXIMUM_TIMELOCK_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MINIMUM_TIMELOCK_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  TIMELOCK_GRACE_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  addCouncilMember: TypedContractMethod<
+    [member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  approveCouncilAction: TypedContractMethod<
+    [actionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  batchClosed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  batchClosesAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchDisbursed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  batchMaxContributions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  batchSettled: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  batchTotalRevealed: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  batchWindowElapsed: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  cancelOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  castVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedSupport: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  claimPayout: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeCurrentBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  closeElapsedBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  councilActionCount: TypedContractMethod<[], [bigint], "view">;
+
+  councilActions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, boolean] & {
+        data: string;
+        proposer: string;
+        executed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  councilApprovals: TypedContractMethod<
+    [actionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  councilThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  createProposal: TypedContractMethod<
+    [batchId: BigNumberish, description: string, votingPeriod: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  depositReturns: TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  disburseBatch: TypedContractMethod<
+    [batchId: BigNumberish, recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedContributions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  encryptedFundingTarget: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedNoVotes: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  encryptedPayouts: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  encryptedReturnedAmount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedTargetReached: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedTotalInvestment: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedVotingWeight: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  encryptedYesVotes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  executeCouncilAction: TypedContractMethod<
+    [actionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fundingTargetCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  fundingTargetChecked: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  fundingTargetReached: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  getCouncilMembers: TypedContractMethod<[], [string[]], "view">;
+
+  hasApprovedAction: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasClaimed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isCouncilMember: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  numContributionsBy: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  numContributionsInBatch: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  numVotes: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  openNewBatch: TypedContractMethod<
+    [closesAt: BigNumberish, maxContributions: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  operationCount: TypedContractMethod<[], [bigint], "view">;
+
+  operations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean, boolean] & {
+        data: string;
+        eta: bigint;
+        executed: boolean;
+        cancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, boolean, bigint, bigint] & {
+        batchId: bigint;
+        proposer: string;
+        deadline: bigint;
+        description: string;
+        tallyRevealed: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  proposeCouncilAction: TypedContractMethod<
+    [data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  queueOperation: TypedContractMethod<
+    [data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  removeCouncilMember: TypedContractMethod<
+    [member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchTotalDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestFundingTargetCheck: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealedTotalInvestment: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  revokeCouncilApproval: TypedContractMethod<
+    [actionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCouncilThreshold: TypedContractMethod<
+    [newThreshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setFundingTarget: TypedContractMethod<
+    [batchId: BigNumberish, encryptedTarget: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setTimelockDelay: TypedContractMethod<
+    [newDelay: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedInvestment: TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  targetCheckContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  targetCheckPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  targetCheckRequestId: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  timelockDelay: TypedContractMethod<[], [bigint], "view">;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  withdrawContribution: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AMOUNT_DECIMALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAXIMUM_TIMELOCK_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MINIMUM_TIMELOCK_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TIMELOCK_GRACE_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addCouncilMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "approveCouncilAction"
+  ): TypedContractMethod<[actionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchClosed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchClosesAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchDisbursed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchMaxContributions"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchSettled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchTotalRevealed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchWindowElapsed"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedSupport: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimPayout"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeCurrentBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeElapsedBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "councilActionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "councilActions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, boolean] & {
+        data: string;
+        proposer: string;
+        executed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "councilApprovals"
+  ): TypedContractMethod<[actionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "councilThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createProposal"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, description: string, votingPeriod: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "depositReturns"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "disburseBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedContributions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedFundingTarget"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedNoVotes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedPayouts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedReturnedAmount"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedTargetReached"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedTotalInvestment"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedVotingWeight"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedYesVotes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "executeCouncilAction"
+  ): TypedContractMethod<[actionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "fundingTargetCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundingTargetChecked"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "fundingTargetReached"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "getCouncilMembers"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "hasApprovedAction"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasClaimed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isCouncilMember"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "numContributionsBy"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "numContributionsInBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "numVotes"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openNewBatch"
+  ): TypedContractMethod<
+    [closesAt: BigNumberish, maxContributions: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "operationCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "operations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean, boolean] & {
+        data: string;
+        eta: bigint;
+        executed: boolean;
+        cancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, boolean, bigint, bigint] & {
+        batchId: bigint;
+        proposer: string;
+        deadline: bigint;
+        description: string;
+        tallyRevealed: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposeCouncilAction"
+  ): TypedContractMethod<[data: BytesLike], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queueOperation"
+  ): TypedContractMethod<[data: BytesLike], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeCouncilMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchTotalDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestFundingTargetCheck"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealedTotalInvestment"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokeCouncilApproval"
+  ): TypedContractMethod<[actionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCouncilThreshold"
+  ): TypedContractMethod<[newThreshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setFundingTarget"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedTarget: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTimelockDelay"
+  ): TypedContractMethod<[newDelay: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settleBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedInvestment"
+  ): TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tallyCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tallyContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "targetCheckContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "targetCheckPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "targetCheckRequestId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "timelockDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdrawContribution"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchDisbursed"
+  ): TypedContractEvent<
+    BatchDisbursedEvent.InputTuple,
+    BatchDisbursedEvent.OutputTuple,
+    BatchDisbursedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchSettled"
+  ): TypedContractEvent<
+    BatchSettledEvent.InputTuple,
+    BatchSettledEvent.OutputTuple,
+    BatchSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContributionWithdrawn"
+  ): TypedContractEvent<
+    ContributionWithdrawnEvent.InputTuple,
+    ContributionWithdrawnEvent.OutputTuple,
+    ContributionWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilActionApproved"
+  ): TypedContractEvent<
+    CouncilActionApprovedEvent.InputTuple,
+    CouncilActionApprovedEvent.OutputTuple,
+    CouncilActionApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilActionExecuted"
+  ): TypedContractEvent<
+    CouncilActionExecutedEvent.InputTuple,
+    CouncilActionExecutedEvent.OutputTuple,
+    CouncilActionExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilActionProposed"
+  ): TypedContractEvent<
+    CouncilActionProposedEvent.InputTuple,
+    CouncilActionProposedEvent.OutputTuple,
+    CouncilActionProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilApprovalRevoked"
+  ): TypedContractEvent<
+    CouncilApprovalRevokedEvent.InputTuple,
+    CouncilApprovalRevokedEvent.OutputTuple,
+    CouncilApprovalRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilMemberAdded"
+  ): TypedContractEvent<
+    CouncilMemberAddedEvent.InputTuple,
+    CouncilMemberAddedEvent.OutputTuple,
+    CouncilMemberAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilMemberRemoved"
+  ): TypedContractEvent<
+    CouncilMemberRemovedEvent.InputTuple,
+    CouncilMemberRemovedEvent.OutputTuple,
+    CouncilMemberRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CouncilThresholdSet"
+  ): TypedContractEvent<
+    CouncilThresholdSetEvent.InputTuple,
+    CouncilThresholdSetEvent.OutputTuple,
+    CouncilThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundingTargetCheckRequested"
+  ): TypedContractEvent<
+    FundingTargetCheckRequestedEvent.InputTuple,
+    FundingTargetCheckRequestedEvent.OutputTuple,
+    FundingTargetCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundingTargetChecked"
+  ): TypedContractEvent<
+    FundingTargetCheckedEvent.InputTuple,
+    FundingTargetCheckedEvent.OutputTuple,
+    FundingTargetCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundingTargetSet"
+  ): TypedContractEvent<
+    FundingTargetSetEvent.InputTuple,
+    FundingTargetSetEvent.OutputTuple,
+    FundingTargetSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "InvestmentSubmitted"
+  ): TypedContractEvent<
+    InvestmentSubmittedEvent.InputTuple,
+    InvestmentSubmittedEvent.OutputTuple,
+    InvestmentSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationCancelled"
+  ): TypedContractEvent<
+    OperationCancelledEvent.InputTuple,
+    OperationCancelledEvent.OutputTuple,
+    OperationCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationExecuted"
+  ): TypedContractEvent<
+    OperationExecutedEvent.InputTuple,
+    OperationExecutedEvent.OutputTuple,
+    OperationExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationQueued"
+  ): TypedContractEvent<
+    OperationQueuedEvent.InputTuple,
+    OperationQueuedEvent.OutputTuple,
+    OperationQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutClaimed"
+  ): TypedContractEvent<
+    PayoutClaimedEvent.InputTuple,
+    PayoutClaimedEvent.OutputTuple,
+    PayoutClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCreated"
+  ): TypedContractEvent<
+    ProposalCreatedEvent.InputTuple,
+    ProposalCreatedEvent.OutputTuple,
+    ProposalCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReturnsDeposited"
+  ): TypedContractEvent<
+    ReturnsDepositedEvent.InputTuple,
+    ReturnsDepositedEvent.OutputTuple,
+    ReturnsDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRequested"
+  ): TypedContractEvent<
+    TallyRequestedEvent.InputTuple,
+    TallyRequestedEvent.OutputTuple,
+    TallyRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRevealed"
+  ): TypedContractEvent<
+    TallyRevealedEvent.InputTuple,
+    TallyRevealedEvent.OutputTuple,
+    TallyRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimelockDelaySet"
+  ): TypedContractEvent<
+    TimelockDelaySetEvent.InputTuple,
+    TimelockDelaySetEvent.OutputTuple,
+    TimelockDelaySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchDisbursed(uint256,address,uint256)": TypedContractEvent<
+      BatchDisbursedEvent.InputTuple,
+      BatchDisbursedEvent.OutputTuple,
+      BatchDisbursedEvent.OutputObject
+    >;
+    BatchDisbursed: TypedContractEvent<
+      BatchDisbursedEvent.InputTuple,
+      BatchDisbursedEvent.OutputTuple,
+      BatchDisbursedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchSettled(uint256,uint256)": TypedContractEvent<
+      BatchSettledEvent.InputTuple,
+      BatchSettledEvent.OutputTuple,
+      BatchSettledEvent.OutputObject
+    >;
+    BatchSettled: TypedContractEvent<
+      BatchSettledEvent.InputTuple,
+      BatchSettledEvent.OutputTuple,
+      BatchSettledEvent.OutputObject
+    >;
+
+    "ContributionWithdrawn(address,uint256,uint256)": TypedContractEvent<
+      ContributionWithdrawnEvent.InputTuple,
+      ContributionWithdrawnEvent.OutputTuple,
+      ContributionWithdrawnEvent.OutputObject
+    >;
+    ContributionWithdrawn: TypedContractEvent<
+      ContributionWithdrawnEvent.InputTuple,
+      ContributionWithdrawnEvent.OutputTuple,
+      ContributionWithdrawnEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "CouncilActionApproved(uint256,address)": TypedContractEvent<
+      CouncilActionApprovedEvent.InputTuple,
+      CouncilActionApprovedEvent.OutputTuple,
+      CouncilActionApprovedEvent.OutputObject
+    >;
+    CouncilActionApproved: TypedContractEvent<
+      CouncilActionApprovedEvent.InputTuple,
+      CouncilActionApprovedEvent.OutputTuple,
+      CouncilActionApprovedEvent.OutputObject
+    >;
+
+    "CouncilActionExecuted(uint256,address)": TypedContractEvent<
+      CouncilActionExecutedEvent.InputTuple,
+      CouncilActionExecutedEvent.OutputTuple,
+      CouncilActionExecutedEvent.OutputObject
+    >;
+    CouncilActionExecuted: TypedContractEvent<
+      CouncilActionExecutedEvent.InputTuple,
+      CouncilActionExecutedEvent.OutputTuple,
+      CouncilActionExecutedEvent.OutputObject
+    >;
+
+    "CouncilActionProposed(uint256,address,bytes4,bytes)": TypedContractEvent<
+      CouncilActionProposedEvent.InputTuple,
+      CouncilActionProposedEvent.OutputTuple,
+      CouncilActionProposedEvent.OutputObject
+    >;
+    CouncilActionProposed: TypedContractEvent<
+      CouncilActionProposedEvent.InputTuple,
+      CouncilActionProposedEvent.OutputTuple,
+      CouncilActionProposedEvent.OutputObject
+    >;
+
+    "CouncilApprovalRevoked(uint256,address)": TypedContractEvent<
+      CouncilApprovalRevokedEvent.InputTuple,
+      CouncilApprovalRevokedEvent.OutputTuple,
+      CouncilApprovalRevokedEvent.OutputObject
+    >;
+    CouncilApprovalRevoked: TypedContractEvent<
+      CouncilApprovalRevokedEvent.InputTuple,
+      CouncilApprovalRevokedEvent.OutputTuple,
+      CouncilApprovalRevokedEvent.OutputObject
+    >;
+
+    "CouncilMemberAdded(address)": TypedContractEvent<
+      CouncilMemberAddedEvent.InputTuple,
+      CouncilMemberAddedEvent.OutputTuple,
+      CouncilMemberAddedEvent.OutputObject
+    >;
+    CouncilMemberAdded: TypedContractEvent<
+      CouncilMemberAddedEvent.InputTuple,
+      CouncilMemberAddedEvent.OutputTuple,
+      CouncilMemberAddedEvent.OutputObject
+    >;
+
+    "CouncilMemberRemoved(address)": TypedContractEvent<
+      CouncilMemberRemovedEvent.InputTuple,
+      CouncilMemberRemovedEvent.OutputTuple,
+      CouncilMemberRemovedEvent.OutputObject
+    >;
+    CouncilMemberRemoved: TypedContractEvent<
+      CouncilMemberRemovedEvent.InputTuple,
+      CouncilMemberRemovedEvent.OutputTuple,
+      CouncilMemberRemovedEvent.OutputObject
+    >;
+
+    "CouncilThresholdSet(uint256,uint256)": TypedContractEvent<
+      CouncilThresholdSetEvent.InputTuple,
+      CouncilThresholdSetEvent.OutputTuple,
+      CouncilThresholdSetEvent.OutputObject
+    >;
+    CouncilThresholdSet: TypedContractEvent<
+      CouncilThresholdSetEvent.InputTuple,
+      CouncilThresholdSetEvent.OutputTuple,
+      CouncilThresholdSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "FundingTargetCheckRequested(uint256,uint256)": TypedContractEvent<
+      FundingTargetCheckRequestedEvent.InputTuple,
+      FundingTargetCheckRequestedEvent.OutputTuple,
+      FundingTargetCheckRequestedEvent.OutputObject
+    >;
+    FundingTargetCheckRequested: TypedContractEvent<
+      FundingTargetCheckRequestedEvent.InputTuple,
+      FundingTargetCheckRequestedEvent.OutputTuple,
+      FundingTargetCheckRequestedEvent.OutputObject
+    >;
+
+    "FundingTargetChecked(uint256,uint256,bool)": TypedContractEvent<
+      FundingTargetCheckedEvent.InputTuple,
+      FundingTargetCheckedEvent.OutputTuple,
+      FundingTargetCheckedEvent.OutputObject
+    >;
+    FundingTargetChecked: TypedContractEvent<
+      FundingTargetCheckedEvent.InputTuple,
+      FundingTargetCheckedEvent.OutputTuple,
+      FundingTargetCheckedEvent.OutputObject
+    >;
+
+    "FundingTargetSet(uint256)": TypedContractEvent<
+      FundingTargetSetEvent.InputTuple,
+      FundingTargetSetEvent.OutputTuple,
+      FundingTargetSetEvent.OutputObject
+    >;
+    FundingTargetSet: TypedContractEvent<
+      FundingTargetSetEvent.InputTuple,
+      FundingTargetSetEvent.OutputTuple,
+      FundingTargetSetEvent.OutputObject
+    >;
+
+    "InvestmentSubmitted(address,uint256,uint256)": TypedContractEvent<
+      InvestmentSubmittedEvent.InputTuple,
+      InvestmentSubmittedEvent.OutputTuple,
+      InvestmentSubmittedEvent.OutputObject
+    >;
+    InvestmentSubmitted: TypedContractEvent<
+      InvestmentSubmittedEvent.InputTuple,
+      InvestmentSubmittedEvent.OutputTuple,
+      InvestmentSubmittedEvent.OutputObject
+    >;
+
+    "OperationCancelled(uint256)": TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+    OperationCancelled: TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+
+    "OperationExecuted(uint256)": TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+    OperationExecuted: TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+
+    "OperationQueued(uint256,bytes4,bytes,uint256)": TypedContractEvent<
+      OperationQueuedEvent.InputTuple,
+      OperationQueuedEvent.OutputTuple,
+      OperationQueuedEvent.OutputObject
+    >;
+    OperationQueued: TypedContractEvent<
+      OperationQueuedEvent.InputTuple,
+      OperationQueuedEvent.OutputTuple,
+      OperationQueuedEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "PayoutClaimed(address,uint256,uint256)": TypedContractEvent<
+      PayoutClaimedEvent.InputTuple,
+      PayoutClaimedEvent.OutputTuple,
+      PayoutClaimedEvent.OutputObject
+    >;
+    PayoutClaimed: TypedContractEvent<
+      PayoutClaimedEvent.InputTuple,
+      PayoutClaimedEvent.OutputTuple,
+      PayoutClaimedEvent.OutputObject
+    >;
+
+    "ProposalCreated(uint256,uint256,address,uint256,string)": TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+    ProposalCreated: TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "ReturnsDeposited(uint256,address,uint256)": TypedContractEvent<
+      ReturnsDepositedEvent.InputTuple,
+      ReturnsDepositedEvent.OutputTuple,
+      ReturnsDepositedEvent.OutputObject
+    >;
+    ReturnsDeposited: TypedContractEvent<
+      ReturnsDepositedEvent.InputTuple,
+      ReturnsDepositedEvent.OutputTuple,
+      ReturnsDepositedEvent.OutputObject
+    >;
+
+    "TallyRequested(uint256,uint256)": TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+    TallyRequested: TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+
+    "TallyRevealed(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      TallyRevealedEvent.InputTuple,
+      TallyRevealedEvent.OutputTuple,
+      TallyRevealedEvent.OutputObject
+    >;
+    TallyRevealed: TypedContractEvent<
+      TallyRevealedEvent.InputTuple,
+      TallyRevealedEvent.OutputTuple,
+      TallyRevealedEvent.OutputObject
+    >;
+
+    "TimelockDelaySet(uint256,uint256)": TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+    TimelockDelaySet: TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+
+    "VoteCast(uint256,address)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as crossDaoTreasurySol from "./Cross_DAO_Treasury.sol";
+export type { crossDaoTreasurySol };
+export type { ConfidentialToken } from "./ConfidentialToken";
@@ -0,0 +1,423 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialToken,
+  ConfidentialTokenInterface,
+} from "../../contracts/ConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedSpender",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedUseOfEncryptedAmount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferHandle",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "minted",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200045e57620016b0803803806200001d8162000482565b92833981016040828203126200045e5781516001600160401b0392908381116200045e57826200004f918301620004a8565b90602092838201518581116200045e576200006b9201620004a8565b925f60606200007962000462565b828152828682015282604082015201526200009362000462565b9260607350157cffd6bbfa2dece204a89ec419c23ef5755d9485815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808483015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319967f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090888254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190878254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390858254161790558251908282116200037c575f54916001948584811c9416801562000453575b838510146200035d578190601f9485811162000400575b5083908583116001146200039c575f9262000390575b50505f19600383901b1c191690851b175f555b85519283116200037c5783548481811c9116801562000371575b828210146200035d5782811162000315575b5080918311600114620002b05750819293945f92620002a4575b50505f19600383901b1c191690821b1790555b33906002541617600255604051335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a36111979081620005198239f35b015190505f8062000251565b90601f19831695845f52825f20925f905b888210620002fd5750508385969710620002e4575b505050811b01905562000264565b01515f1960f88460031b161c191690555f8080620002d6565b808785968294968601518155019501930190620002c1565b845f52815f208380860160051c82019284871062000353575b0160051c019085905b8281106200034757505062000237565b5f815501859062000337565b925081926200032e565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000225565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001f8565b90879350601f198316915f8052855f20925f5b87828210620003e95750508411620003d0575b505050811b015f556200020b565b01515f1960f88460031b161c191690555f8080620003c2565b8385015186558b97909501949384019301620003af565b9091505f8052835f208580850160051c82019286861062000449575b918991869594930160051c01915b8281106200043a575050620001e2565b5f81558594508991016200042a565b925081926200041c565b93607f1693620001cb565b5f80fd5b60405190608082016001600160401b038111838210176200037c57604052565b6040519190601f01601f191682016001600160401b038111838210176200037c57604052565b919080601f840112156200045e5782516001600160401b0381116200037c57602090620004de601f8201601f1916830162000482565b928184528282870101116200045e575f5b818110620005045750825f9394955001015290565b8581018301518482018401528201620004ef56fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde0314610906575080632893c5b0146106645780632fb74e62146104a4578063313ce56714610489578063344ff101146104525780634fcbc542146103ee5780638da5cb5b146103c657806395d89b41146102b3578063b6363cf21461027d578063d4febb96146101e4578063da1f12ab146101c8578063eb3155b5146101345763f2fde38b146100ae575f80fd5b34610130576020366003190112610130576100c7610a53565b600254926001600160a01b038085169390929190338590036101235750501680926bffffffffffffffffffffffff60a01b16176002557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b516330cd747160e01b8152fd5b5f80fd5b50346101305760603660031901126101305761014e610a53565b610156610a69565b604435939091906001600160a01b038316156101ba576101763383610a7f565b156101ac5761018485610ef6565b1561019e57509261019791602094610ac2565b9051908152f35b83516334b67e8160e11b8152fd5b83516320494fd960e01b8152fd5b8351630309cb8760e51b8152fd5b5034610130575f36600319011261013057602090516127118152f35b50346101305780600319360112610130576101fd610a53565b906024359165ffffffffffff8316809303610130576001600160a01b031692831561026f57335f52602052805f20835f52602052805f208265ffffffffffff19825416179055519081527f921a218a75d18e8ec5704851e6b234a85725b21a2521ce889622c35dedc1fa1260203392a3005b9051630309cb8760e51b8152fd5b50346101305780600319360112610130576020906102aa61029c610a53565b6102a4610a69565b90610a7f565b90519015158152f35b5034610130575f366003190112610130578051905f90600191600154928360011c90600185169485156103bc575b60209586841081146103a95783885287949392918790821561038757505060011461032c575b505061032892916103199103856109f3565b51928284938452830190610a15565b0390f35b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061036f5750505082010181610319610307565b8054848a018601528895508794909301928101610359565b60ff19168682015292151560051b850190920192508391506103199050610307565b602289634e487b7160e01b5f525260245ffd5b91607f16916102e1565b5034610130575f3660031901126101305760025490516001600160a01b039091168152602090f35b5034610130578060031936011261013057610407610a53565b602435926001600160a01b038216156104445761042384610ef6565b1561043657506020926101979133610ac2565b82516334b67e8160e11b8152fd5b8251630309cb8760e51b8152fd5b5034610130576020366003190112610130576020906001600160a01b03610477610a53565b165f5260038252805f20549051908152f35b5034610130575f366003190112610130576020905160068152f35b5034610130576060366003190112610130576104be610a53565b60443567ffffffffffffffff80821161013057366023830112156101305781850135908111610130573660248284010111610130576001600160a01b03918383161561065457915f94939161057c86946020978884819560248b519561052d85601f19601f86011601886109f3565b828752018386013783010152835f8051602061116b833981519152541690875196878094819363196d0b9b60e01b83528d60243590840152336024840152608060448401526084830190610a15565b6005606483015203925af192831561064a575f9361061b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610130578351630f8e573b60e21b81529586018381523360208201525f91879182908490829060400103925af194851561061157610197939495610602575b5033610ac2565b61060b906109cb565b5f6105fb565b83513d5f823e3d90fd5b9092508481813d8311610643575b61063381836109f3565b810103126101305751915f610595565b503d610629565b84513d5f823e3d90fd5b8451630309cb8760e51b81528690fd5b503461013057806003193601126101305761067d610a53565b906024359167ffffffffffffffff8316809303610130576002546001600160a01b039190821633036108f6578181169182156108e657945f955f8051602061116b8339815191529181835416865197639cd07acb60e01b895282890152600560248901528760448160209b8c945af19687156108dc575f976108ad575b50845f5260038852855f205492610711888561106a565b928985851561089d575b861561088f575b606483855416965f8c519889948593631391547f60e01b85528a85015260248401528160448401525af193841561088557908a949392915f9461084b575b50606492915f9161076f610f9c565b915416908a519b8c968795637702dcff60e01b8752860152602485015260448401525af194851561064a575f95610818575b50906107cf816107b4876107df9561106a565b855f526003895280875f20556107ca30826110ee565b6110ee565b6107d930866110ee565b846110ee565b6107e933846110ee565b5f7fdef6144e0f80e23ca465862f2f93a21f8526624729198aed904b46e005c943e4858451868152a351908152f35b919094508582813d8311610844575b61083181836109f3565b81010312610130579051936107cf6107a1565b503d610827565b8581969295509392933d831161087e575b61086681836109f3565b81010312610130579251899390929091906064610760565b503d61085c565b88513d5f823e3d90fd5b50610898610f9c565b610722565b94506108a7610f9c565b9461071b565b9096508781813d83116108d5575b6108c581836109f3565b810103126101305751955f6106fa565b503d6108bb565b86513d5f823e3d90fd5b8351630309cb8760e51b81528690fd5b82516330cd747160e01b81528590fd5b91905034610130575f366003190112610130575f905f549160018360011c90600185169485156109c1575b60209586841081146103a95783885287949392918790821561038757505060011461096857505061032892916103199103856109f3565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8284106109a95750505082010181610319610307565b8054848a018601528895508794909301928101610993565b91607f1691610931565b67ffffffffffffffff81116109df57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176109df57604052565b91908251928382525f5b848110610a3f575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610a1f565b600435906001600160a01b038216820361013057565b602435906001600160a01b038216820361013057565b6001600160a01b039081169116818114918215610a9b57505090565b9091505f52600460205260405f20905f5260205265ffffffffffff60405f20541642111590565b90929160018060a01b039384811692835f52602090600382526040805f205493610aec868661106a565b9285998415610ee6575b8615610ed6575b855f8051602061116b833981519152958287541686519d8e92631391547f60e01b845260048401526024830152604482015f9052815a6064925f91f19a8b1561064a575f9b610ea7575b508a9486828416998a15159d8e610d54575b506064610b64610f9c565b985f868654168a519b8c958694637702dcff60e01b86526004860152602485015260448401525af1958615610d4a575f96610d1b575b50859b610c0f575b50505080610bee610bfe92610bd8867fdef6144e0f80e23ca465862f2f93a21f8526624729198aed904b46e005c943e49961106a565b8a5f526003885280865f20556107ca30826110ee565b610bf830856110ee565b836110ee565b610c0833836110ee565b51908152a3565b8690895f5260038252855f20549287908415610d0b575b8815610cf8575b606491925416935f885195869485936303056db360e31b8552600485015260248401528160448401525af190811561064a5788905f92610cc0575b5092610bd8867fdef6144e0f80e23ca465862f2f93a21f8526624729198aed904b46e005c943e499610cb686610bf88698610bee9860038f610bfe9d5f5252808d5f20556107ca30826110ee565b9950505092610ba2565b8094939250878092503d8311610cf1575b610cdb81836109f3565b8101031261013057915190919087610bd8610c68565b503d610cd1565b60649150610d04610f9c565b9150610c2d565b9350610d15610f9c565b93610c26565b9095508681813d8311610d43575b610d3381836109f3565b810103126101305751945f610b9a565b503d610d29565b85513d5f823e3d90fd5b91509650895f5260038852855f20548888918915610e97575b8015610e89575b606486865416935f8b519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610e7f579089915f91610e50575b50808315610e40575b15610e32575b606485855416935f8a51958694859363d99882d560e01b8552600485015260248401528160448401525af19081156108dc579088915f91610e03575b50965f610b59565b82819392503d8311610e2b575b610e1a81836109f3565b81010312610130578790515f610dfb565b503d610e10565b50610e3b61101e565b610dbf565b9250610e4a61101e565b92610db9565b82819392503d8311610e78575b610e6781836109f3565b81010312610130578890515f610db0565b503d610e5d565b87513d5f823e3d90fd5b50610e92610f9c565b610d74565b9150610ea1610f9c565b91610d6d565b909a508581813d8311610ecf575b610ebf81836109f3565b810103126101305751995f610b47565b503d610eb5565b9950610ee0610f9c565b99610afd565b9350610ef0610f9c565b93610af6565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa908115610f91575f91610f59575090565b90506020813d602011610f89575b81610f74602093836109f3565b81010312610130575180151581036101305790565b3d9150610f67565b6040513d5f823e3d90fd5b5f8051602061116b83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610f91575f91610fef575090565b90506020813d602011611016575b8161100a602093836109f3565b81010312610130575190565b3d9150610ffd565b5f602060018060a01b035f8051602061116b8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610f91575f91610fef575090565b9081156110de575b80156110cc575b602090606460018060a01b035f8051602061116b8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610f91575f91610fef575090565b5060206110d7610f9c565b9050611079565b90506110e8610f9c565b90611072565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561013057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610f915761115f5750565b611168906109cb565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialToken__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _name: string,
+    _symbol: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_name, _symbol, overrides || {});
+  }
+  override deploy(
+    _name: string,
+    _symbol: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_name, _symbol, overrides || {}) as Promise<
+      ConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConfidentialToken__factory {
+    return super.connect(runner) as ConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenInterface {
+    return new Interface(_abi) as ConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialToken {
+    return new Contract(address, _abi, runner) as unknown as ConfidentialToken;
+  }
+}
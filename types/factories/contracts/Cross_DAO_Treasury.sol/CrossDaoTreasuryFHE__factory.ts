@@ -0,0 +1,2528 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  CrossDaoTreasuryFHE,
+  CrossDaoTreasuryFHEInterface,
+} from "../../../contracts/Cross_DAO_Treasury.sol/CrossDaoTreasuryFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "address[]",
+        name: "_council",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_councilThreshold",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyApproved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyDisbursed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadySettled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyVoted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchWindowElapsed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchWindowOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CouncilActionNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CouncilApprovalRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoVotingPower",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotApproved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCouncilMember",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSettled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OperationExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OperationNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyAlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TargetAlreadyChecked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ThresholdNotMet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TimelockNotReady",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TimelockRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TotalNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownCouncilAction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownOperation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownProposal",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingOpen",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchDisbursed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxContributions",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedReturnedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "ContributionWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CouncilActionApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "CouncilActionExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes4",
+        name: "selector",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "CouncilActionProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CouncilApprovalRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CouncilMemberAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CouncilMemberRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldThreshold",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newThreshold",
+        type: "uint256",
+      },
+    ],
+    name: "CouncilThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalInvestment",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "FundingTargetCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "reached",
+        type: "bool",
+      },
+    ],
+    name: "FundingTargetChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "FundingTargetSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "InvestmentSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "OperationCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "OperationExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes4",
+        name: "selector",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+    ],
+    name: "OperationQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedPayout",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "ReturnsDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "yesVotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noVotes",
+        type: "uint256",
+      },
+    ],
+    name: "TallyRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldDelay",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newDelay",
+        type: "uint256",
+      },
+    ],
+    name: "TimelockDelaySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AMOUNT_DECIMALS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAXIMUM_TIMELOCK_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINIMUM_TIMELOCK_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TIMELOCK_GRACE_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "addCouncilMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "approveCouncilAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchClosesAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchDisbursed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchMaxContributions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchSettled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchTotalRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "batchWindowElapsed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEbool",
+        name: "encryptedSupport",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claimPayout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeCurrentBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeElapsedBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "councilActionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "councilActions",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "executed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "councilApprovals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "approvals",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "councilThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "votingPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "createProposal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "depositReturns",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "disburseBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedContributions",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedFundingTarget",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedNoVotes",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedPayouts",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedReturnedAmount",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedTargetReached",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedTotalInvestment",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedVotingWeight",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedYesVotes",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "executeCouncilAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "executeOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "fundingTargetCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fundingTargetChecked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fundingTargetReached",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCouncilMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasApprovedAction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isCouncilMember",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "numContributionsBy",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "numContributionsInBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "numVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "closesAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxContributions",
+        type: "uint256",
+      },
+    ],
+    name: "openNewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "operationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "operations",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "executed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "cancelled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "tallyRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "yesVotes",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "noVotes",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "proposeCouncilAction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "queueOperation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "removeCouncilMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchTotalDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestFundingTargetCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTallyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revealedTotalInvestment",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "actionId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeCouncilApproval",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newThreshold",
+        type: "uint256",
+      },
+    ],
+    name: "setCouncilThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setFundingTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newDelay",
+        type: "uint256",
+      },
+    ],
+    name: "setTimelockDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "settleBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedInvestment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "tallyCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tallyContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "targetCheckContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "targetCheckPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "targetCheckRequestId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "contract ConfidentialToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawContribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060a08152346200044c5762005a2b803803806200001e8162000470565b9283398101916060828403126200044c576200003a8262000496565b6020838101516001600160401b0394919291908581116200044c5781019580601f880112156200044c5786519586116200030b576005968660051b9085806200008581850162000470565b809a815201928201019283116200044c579085808895949301915b8383106200042b57505050500151935f6060620000bc62000450565b828152828682015282878201520152620000d562000450565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6985830181905273a02cda4ca3a71d7c46997716f4283aa851c28812878401819052731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60609094018490527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690941790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701805484169092179091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970380548216909217909155956001600160a01b0392831680156200041a576080525f5b82518110156200034557838582841b8501015116908115801562000330575b6200031f57815f52600191828752875f2060ff199084828254161790555f5493680100000000000000008510156200030b57808501805f55851015620002f7576001945f8052895f2001838d825416179055825f5260038952895f2091825460ff811615620002c4575b505050507fdcb46b4634af6065fbbeab63938d70a7cc803a67bc6a5bb9f28fb8d9a5c4ce145f80a2016200020c565b16179055807fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a25f80808062000295565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b8651630309cb8760e51b8152600490fd5b50815f526001865260ff875f2054166200022b565b858786811580156200040f575b620003fe57826001925f7fd09ef78fc8f4a095d20a562d6e705815887c348e3c82145a7820c72136953a6b9360025492806002558451937f719f18a3f0b5784dceb8426018014b71e12103fec983c56a3f782db63f9052f38480a3603c6005556202a30060275585600855818352820152a25161557f9081620004ac8239608051818181610a410152818161256e015281816127a101528181612a3a015281816132e501526138aa0152f35b8251630309cb8760e51b8152600490fd5b505f54821162000352565b8551630309cb8760e51b8152600490fd5b82939495506200043c829362000496565b81520191018587949392620000a0565b5f80fd5b60405190608082016001600160401b038111838210176200030b57604052565b6040519190601f01601f191682016001600160401b038111838210176200030b57604052565b51906001600160a01b03821682036200044c5756fe60806040526004361015610011575f80fd5b5f3560e01c8063013cf08b14610574578063089b04291461056f5780630a763da11461056a5780630aa13c8f146105655780630ca812a5146105605780630d616d201461055b5780630dfd88ef146105565780630e70306d14610551578063124bd04b1461054c57806316c38b3c146105475780631ba4cc9a1461054257806323d3c1421461053d578063289f53751461053857806328c688f3146105335780632f8139ae1461052e578063300c390f1461052957806332e08bfd14610524578063361fcdbc1461051f578063393f6a931461051a578063438596321461051557806346e2577a146105105780635720439d1461050b57806357c523cf1461050657806359de5329146105015780635a94a079146104fc5780635acda27a146104f75780635c945227146104f25780635c975abb146104ed5780635ec08d99146104e8578063606a6b76146104e3578063610eea2b146104de578063637702b0146104d9578063639d7fcd146104d457806363b13e22146104cf578063659d2a69146104ca5780636b074a07146104c55780636ea12ff3146104c0578063722900e6146104bb5780637855daae146104b65780637b5b1157146104b15780637f45de27146104ac57806380219fcc146104a757806381420539146104a257806382e8785b1461049d578063850034b1146104985780638589c7a514610493578063873f6f9e1461048e5780638a355a57146104895780638a69614e146104845780638a7ec95f1461047f5780638dbb3a4b1461047a5780638e83905e146104755780638f8c287d146104705780638f9e43af1461046b57806397087ce61461046657806397d1458d146104615780639c8d81be1461045c5780639f7c103b14610457578063a200c3e414610452578063a43654761461044d578063a891bfa914610448578063ae063c3814610443578063af267f8f1461043e578063b2e9949d14610439578063b65e894114610434578063b8221bc41461042f578063ba2948181461042a578063bcd2ecdd14610425578063bec0f4f214610420578063cb89bda51461041b578063ce9e886d14610416578063d3e5d12014610411578063d46fcd531461040c578063d59a705e14610407578063d8fad50b14610402578063da1f12ab146103fd578063da35c664146103f8578063dc9785d4146103f3578063dd2b3557146103ee578063df01d73e146103e9578063df7c7790146103e4578063e9e60baa146103df578063ebd7dc52146103da578063eef09bad146103d5578063fc0c546a146103d05763fd55c482146103cb575f80fd5b6138d9565b613895565b613878565b61383b565b61380c565b61375e565b61360b565b6135e1565b6135a1565b613584565b613568565b61346a565b613418565b61322e565b613204565b6131d5565b6131ab565b613181565b613157565b61313c565b61311f565b6130cd565b613062565b612ffe565b612fcf565b612dc7565b612d8f565b612d42565b612d18565b612cee565b612cbb565b612c91565b612947565b61291f565b6126f5565b6126a3565b61265f565b612429565b61237f565b61233d565b612106565b611f97565b611e41565b611ccc565b611ca2565b611c62565b611c1a565b611bfd565b611b9e565b611aff565b611ac2565b611a01565b61196f565b611940565b6118d9565b61180f565b611760565b611735565b611713565b6116b9565b611586565b61154e565b611524565b6114fe565b6113bc565b611344565b611302565b6112d3565b6112a4565b611264565b611248565b6111ff565b61112a565b610ff3565b610fd6565b610f88565b610eef565b610d5e565b610b9c565b610b7f565b6108e0565b6108c3565b6108a6565b610889565b6107bd565b6106b0565b90600182811c921680156105a7575b602083101461059357565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610588565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116105d857604052565b6105b1565b606081019081106001600160401b038211176105d857604052565b90601f801991011681019081106001600160401b038211176105d857604052565b5f5b83811061062a5750505f910152565b818101518382015260200161061b565b9060209161065381518092818552858086019101610619565b601f01601f1916010190565b959390926106929260c096999894885260018060a01b03166020880152604087015260e0606087015260e086019061063a565b95151560808501526001600160401b0380921660a085015216910152565b346107b9576020806003193601126107b9576004355f5280805260405f20805460019260018060a01b03600184015416916002840154936003810192604051935f978154916106fe83610579565b8088529260018116908115610797575060011461075b575b5050505060049061072e8461075796979803856105f8565b0154906001600160401b039260405196879660ff868660481c16968660081c169516938861065f565b0390f35b5f908152838120939950925b828410610784575050508301909501948061072e84610757610716565b80548785018b0152928901928101610767565b60ff191685890152505050151560051b84010195508061072e84610757610716565b5f80fd5b346107b95760203660031901126107b957600435335f52600160205260ff60405f2054161561086d576107ef81614352565b505f818152602c6020908152604080832033845290915290205460ff1661085b575f818152602c602090815260408083203384529091529020805460ff1916600117905533907fb3f55f82489d0103e632f0f628178c01aa42452c1b60ff74dc7650eece6b65745f80a3005b60405163080fc0bd60e11b8152600490fd5b604051634a42c42d60e01b8152600490fd5b5f9103126107b957565b346107b9575f3660031901126107b9576020600854604051908152f35b346107b9575f3660031901126107b9576020604051621275008152f35b346107b9575f3660031901126107b957602060405162278d008152f35b346107b9575f3660031901126107b957335f526003602052604060ff815f20541615610b6f5760ff60045416610b5f5760088054610930610929825f52600960205260405f2090565b5460ff1690565b610b4e5761093d81613de3565b610b3d57906020610a9d6109986109b861099e5f9661097d33610968835f52600b60205260405f2090565b9060018060a01b03165f5260205260405f2090565b5493849161098a836143a1565b5f52600a60205260405f2090565b546143ba565b806109b287545f52600a60205260405f2090565b55614457565b50610a3f6109c4614be0565b806109dc3361096889545f52600b60205260405f2090565b558554610a13610a0b6109fb33610968855f52600d60205260405f2090565b54925f52600c60205260405f2090565b918254613a09565b905586610a2d3361096889545f52600d60205260405f2090565b55610a3781614457565b503390614b76565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690610a748282614c86565b86516327e5e2a160e11b8152336004820152602481019190915294859283919082906044820190565b03925af1918215610b38575f92610ae5575b5054915190815233907f59a711b6608d234f8bbce6257dd2dd12154b00cc23503149fd99ddf0d6980ffe9080602081015b0390a3005b7f59a711b6608d234f8bbce6257dd2dd12154b00cc23503149fd99ddf0d6980ffe919250610b2a9060203d602011610b31575b610b2281836105f8565b810190613a16565b9190610aaf565b503d610b18565b613a25565b82516348211b5960e11b8152600490fd5b8251631e4f783760e11b8152600490fd5b516313d0ff5960e31b8152600490fd5b51631a40715960e11b8152600490fd5b346107b9575f3660031901126107b9576020602a54604051908152f35b346107b95760203660031901126107b957600435335f52600160205260ff60405f2054161561086d57610bce81614461565b6001810154804210610c4a57621275008101809111610c45574211610c3357610c08816002610c0d9301600160ff19825416179055611839565b6144c1565b7f0e71fde518036742a4c067068719d7f9e26519ea3aef1213ae9098439bbb38de5f80a2005b604051633a76bc0560e11b8152600490fd5b6139e7565b604051637378c19d60e01b8152600490fd5b60405190610c69826105dd565b565b6040519060e082018281106001600160401b038211176105d857604052565b60405190608082018281106001600160401b038211176105d857604052565b6001600160401b0381116105d857601f01601f191660200190565b929192610cd082610ca9565b91610cde60405193846105f8565b8294818452818301116107b9578281602093845f960137010152565b9080601f830112156107b957816020610d1593359101610cc4565b90565b60606003198201126107b957600435916001600160401b036024358181116107b95783610d4791600401610cfa565b926044359182116107b957610d1591600401610cfa565b346107b957610d6c36610d18565b610d8d6002610d858594955f52601060205260405f2090565b015460ff1690565b610ed357610da3825f52601060205260405f2090565b5492610dd2610db0613a3d565b610dc2865f52600a60205260405f2090565b54610dcc82613a7b565b52614542565b6001610de6855f52601060205260405f2090565b015403610ec157610e2f81610e207fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f994610ae09487614579565b60208082518301019101613aa1565b610e546002610e46865f52601060205260405f2090565b01805460ff19166001179055565b610e76610e69865f52601160205260405f2090565b805460ff19166001179055565b610ea781610e8c875f52601260205260405f2090565b906001600160401b03166001600160401b0319825416179055565b6040516001600160401b0390911681529081906020820190565b6040516313b304fb60e21b8152600490fd5b60405163dbde098160e01b8152600490fd5b801515036107b957565b346107b95760203660031901126107b957600435610f0c81610ee5565b303303610f4a57151560ff196004541660ff8216176004557f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b5f80a2005b6040516399f26d5b60e01b8152600490fd5b602435906001600160a01b03821682036107b957565b600435906001600160a01b03821682036107b957565b346107b95760403660031901126107b957602060ff610fca610fa8610f5c565b6004355f52602c845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b346107b9575f3660031901126107b9576020602854604051908152f35b346107b95760203660031901126107b95761100c610f72565b303303610f4a576001600160a01b0381169081158015611104575b6110f2576001600160a01b0381165f90815260016020526040902061104b90610e69565b6110548161465d565b6001600160a01b0381165f90815260036020526040902061107c9061107890610929565b1590565b6110a8575b507fdcb46b4634af6065fbbeab63938d70a7cc803a67bc6a5bb9f28fb8d9a5c4ce145f80a2005b6001600160a01b03165f9081526003602052604090206110c790610e69565b807fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a25f611081565b604051630309cb8760e51b8152600490fd5b506001600160a01b0381165f90815260016020526040902061112590610929565b611027565b346107b95760203660031901126107b9576004353033036111ed5760ff600454166111db57805f52601b60205260ff60405f2054166111ca57805f52601c6020527f0a0af9013a8d9968e4532086fbc7137cf11ee8b8f9d57c8e5e89589b416739086111c560405f205461119d816143a1565b835f52601b60205260405f20600160ff19825416179055604051918291829190602083019252565b0390a2005b60405162560ff960e81b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b6040516347ae9afb60e01b8152600490fd5b346107b95760403660031901126107b957602061123f61121d610f5c565b6004355f52600b835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b346107b9575f3660031901126107b9576020604051610e108152f35b346107b95760403660031901126107b957602061123f611282610f5c565b6004355f52601e835260405f209060018060a01b03165f5260205260405f2090565b346107b95760203660031901126107b9576004355f526018602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b9576004355f52601a602052602060ff60405f2054166040519015158152f35b346107b95760403660031901126107b957602060ff610fca611322610f5c565b6004355f526024845260405f209060018060a01b03165f5260205260405f2090565b346107b95760203660031901126107b95761135d610f72565b3033036111ed576001600160a01b031680156110f257805f52600360205260405f2060ff8154161561138b57005b805460ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b346107b95760203660031901126107b9576113d5610f72565b303303610f4a576001600160a01b0381165f9081526001602052604090206114009061107890610929565b80156114f1575b6110f2576001600160a01b0381165f908152600160205260409020611431905b805460ff19169055565b6001600160a01b03908116905f5b5f54808210156114e957838361146c61145785613ab5565b905460039190911b1c6001600160a01b031690565b161461147b575060010161143f565b6114bb925061149761145761149261149d936139fb565b613ab5565b91613ab5565b90919060018060a01b038084549260031b9316831b921b1916179055565b6114c3613ad5565b7fce6ed85c24e62fbd23486204879240944c169dfcde2952b0c15f12bf120296695f80a2005b5050506114c3565b505f546002541015611407565b346107b95760203660031901126107b957602061151c600435613b4b565b604051908152f35b346107b95760203660031901126107b9576004355f52600a602052602060405f2054604051908152f35b346107b95760203660031901126107b9576001600160a01b0361156f610f72565b165f526007602052602060405f2054604051908152f35b346107b95761159436610d18565b6115ad6002610d858594955f52601560205260405f2090565b610ed3576115c3825f52601560205260405f2090565b54926115e26115d0613a3d565b610dc2865f52601460205260405f2090565b60016115f6855f52601560205260405f2090565b015403610ec15761163f816116307f07b4a4499f689dcb2e679d56a9dda02cf39aa3c36e5aed4aa82c05340fc06ce494610ae09487614579565b60208082518301019101613bb5565b6116566002610e46865f52601560205260405f2090565b61166b611427865f52601660205260405f2090565b611680610e69865f52601860205260405f2090565b6116a781611696875f52601960205260405f2090565b9060ff801983541691151516179055565b60405190151581529081906020820190565b346107b95760203660031901126107b9576004353033036111ed5760026116df82614461565b01805461ff0019166101001790557f6b7f7505a4267990f8d5bcaf5883b6770758862c5217e7384e0b2265bdfe2b035f80a2005b346107b9575f3660031901126107b957602060ff600454166040519015158152f35b346107b9575f3660031901126107b9573033036111ed5760ff600454166111db5761175e6146ad565b005b346107b9575f3660031901126107b957604051805f54808352602080930180915f80525f805160206154f3833981519152905f5b868282106117f25786866117aa828803836105f8565b60405192839281840190828552518091526040840192915f5b8281106117d257505050500390f35b83516001600160a01b0316855286955093810193928101926001016117c3565b83546001600160a01b031685529093019260019283019201611794565b346107b95760203660031901126107b9576004355f52600f602052602060405f2054604051908152f35b9060405191825f825461184b81610579565b908184526020946001916001811690815f146118b75750600114611879575b505050610c69925003836105f8565b5f90815285812095935091905b81831061189f575050610c6993508201015f808061186a565b85548884018501529485019487945091830191611886565b92505050610c6994925060ff191682840152151560051b8201015f808061186a565b346107b95760203660031901126107b9576004355f52602b60205261191f60405f20600161190682611839565b91015460ff60405193849360608552606085019061063a565b6001600160a01b038316602085015260a09290921c16151560408301520390f35b346107b95760203660031901126107b9576004355f526016602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b9576004355f526019602052602060ff60405f2054166040519015158152f35b9181601f840112156107b9578235916001600160401b0383116107b957602083818601950101116107b957565b60606003198201126107b9576004359160243591604435906001600160401b0382116107b9576119fd9160040161199e565b9091565b346107b957611a0f366119cb565b9190913033036111ed5760ff600454166111db5783158015611ab7575b8015611aa1575b611a8f57611a4c92611a46913691610cc4565b90614e69565b611a5581614457565b50611a68825f52601360205260405f2090565b557f5bdee2b6367ca227560a311b84f3206cd7d67152c09595fe2b41e293ad9db5d25f80a2005b604051631e4f783760e11b8152600490fd5b50835f52600960205260ff60405f205416611a33565b506008548411611a2c565b346107b95760203660031901126107b9576001600160a01b03611ae3610f72565b165f526003602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b957600435335f52600160205260ff60405f2054161561086d57611b3181614352565b611b3a82613b4b565b60025411611b8c5760018101805460ff60a01b1916600160a01b179055611b6490610c0890611839565b33907f10edb308dd10eb60bb72b24044690c89d2f38afe96405a66f5888691bcab13bd5f80a3005b6040516359fa4a9360e01b8152600490fd5b346107b95760203660031901126107b957600435303303610f4a5780158015611bf3575b6110f257600254816002557f719f18a3f0b5784dceb8426018014b71e12103fec983c56a3f782db63f9052f35f80a3005b505f548111611bc2565b346107b9575f3660031901126107b9576020600254604051908152f35b346107b95760203660031901126107b957600435303303610f4a57600554816005557f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a735f80a3005b346107b95760403660031901126107b957602061123f611c80610f5c565b6004355f526025835260405f209060018060a01b03165f5260205260405f2090565b346107b95760203660031901126107b9576004355f526014602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004803590335f52600360205260409060ff825f20541615611e335760ff815416611e2557335f908152600760205260409020611d1c905b5442613a09565b60055411611e1757611d3c611078610929855f52600960205260405f2090565b8015611e0f575b611e015750611d63611d5d835f52600a60205260405f2090565b546143a1565b335f908152600760205260409020429055611ddb611d7f613a3d565b611d91845f52600a60205260405f2090565b54611d9b82613a7b565b525f611daf611da983614542565b92615037565b93611db8610c5c565b928684526020840152820152611dd6835f52601060205260405f2090565b613bca565b7f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a3005b9051631e4f783760e11b8152fd5b508215611d43565b905163aa9a98df60e01b8152fd5b90516313d0ff5960e31b8152fd5b9051631a40715960e11b8152fd5b346107b9576040806003193601126107b9576004906024358235303303611f5e5760ff845416611f4f5760085493611e87611078610929875f52600960205260405f2090565b611f415781151580611f37575b611f295750611ecc611ec77fd09ef78fc8f4a095d20a562d6e705815887c348e3c82145a7820c72136953a6b9495613b3d565b600855565b611ee36114276008545f52600960205260405f2090565b80611ef86008545f52600e60205260405f2090565b5581611f0e6008545f52600f60205260405f2090565b556008549351908152602081019190915280604081016111c5565b8351630309cb8760e51b8152fd5b5042821115611e94565b8351631b7506b360e01b8152fd5b5050516313d0ff5960e31b8152fd5b5050516347ae9afb60e01b8152fd5b60206003198201126107b957600435906001600160401b0382116107b9576119fd9160040161199e565b346107b957611fa536611f6d565b90335f52600160205260409160ff835f205416156120f5576004811080156120d1575b6120c0579161075792611fdc602a54613b3d565b92611fe684602a55565b612020611ff1610c5c565b611ffc368585610cc4565b81523360208201525f8582015261201b865f52602b60205260405f2090565b613c80565b837f652044c5b83d9e25b24b96a04e95c316e055fb8ab99b7ee57afb6263f2b2f13a6120716120626120528686613bf7565b6001600160e01b03199291613c05565b16948651918291339683613dd2565b0390a461208d610e6933610968855f52602c60205260405f2090565b5191829133817fb3f55f82489d0103e632f0f628178c01aa42452c1b60ff74dc7650eece6b65745f80a382526020820190565b8251630309cb8760e51b8152600490fd5b506120f06110786120eb6120e58486613bf7565b90613c05565b614703565b611fc8565b8251634a42c42d60e01b8152600490fd5b346107b95760603660031901126107b95760048035906044356001600160401b0381116107b95761213a903690830161199e565b335f52600360205260409260ff845f2054161561232f5760ff81541661232157612163856147a7565b60028101544210156123125761218861092933610968895f52602460205260405f2090565b612303576121a4906109683391545f52600b60205260405f2090565b549384156122f6578561226b866122396121ca6121c236898b610cc4565b602435614f5e565b916121e4610e6933610968885f52602460205260405f2090565b806121fb33610968885f52602560205260405f2090565b5561220581614457565b506122103382614b76565b612218614be0565b61223f61222d875f52602160205260405f2090565b54612239838588615326565b906147d0565b612251875f52602160205260405f2090565b55612264865f52602260205260405f2090565b5493615326565b61227d825f52602260205260405f2090565b55612299612293825f52602160205260405f2090565b54614457565b506122af612293825f52602260205260405f2090565b506122c2815f52602360205260405f2090565b6122cc8154613b3d565b905533907ff1003b73c437642c0460aee9cd9628b0b8c447b66e6c7c905531b9c644214a115f80a3005b51631f05dadd60e21b8152fd5b508351637c9a1cf960e01b8152fd5b50835163335b65a560e11b8152fd5b83516313d0ff5960e31b8152fd5b8351631a40715960e11b8152fd5b346107b95760403660031901126107b957602060ff610fca61235d610f5c565b6004355f52601d845260405f209060018060a01b03165f5260205260405f2090565b346107b95760203660031901126107b957612398610f72565b303303610f4a576001600160a01b0381169081158015612413575b6110f2575f8281526003602052604090205460ff166123ce57005b6001600160a01b03165f9081526003602052604090206123ed90611427565b7f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b50815f52600160205260ff60405f2054166123b3565b346107b95760203660031901126107b957600480359060ff81541661265057612460611078610929845f52601b60205260405f2090565b6126415761248e61092961247c845f52601d60205260405f2090565b335f9081526020919091526040902090565b612632576125cf60206125256125206124e96124c86124b9336109688a5f52600b60205260405f2090565b546124c3816143a1565b615378565b6124e36124dd895f52601c60205260405f2090565b54615378565b90614854565b61251a61250e612501895f52601260205260405f2090565b546001600160401b031690565b6001600160401b031690565b906148d8565b6153cb565b8093612540610e6933610968895f52601d60205260405f2090565b8161255733610968895f52601e60205260405f2090565b5561256182614457565b5061256c3383614b76565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906125a18284614c86565b604080516327e5e2a160e11b81523392810192835260208301949094529294859384925f9284929190910190565b03925af18015610b3857612613575b5060405190815233907f0408e6e0b73daf4c873106e95fd067260fbff8bf9d1b499cad563d4480d45bac908060208101610ae0565b61262b9060203d602011610b3157610b2281836105f8565b505f6125de565b604051630c8d9eab60e31b8152fd5b60405163ba329a9b60e01b8152fd5b6040516313d0ff5960e31b8152fd5b346107b9575f3660031901126107b95760ff600454166111db57612684600854613de3565b156126915761175e6146ad565b604051631375d2ab60e01b8152600490fd5b346107b95760203660031901126107b9576004355f52602660205260405f20805461075760ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b346107b957612703366119cb565b92919060049360ff85541661290e5761272a611078610929865f52601160205260405f2090565b6128fd57612743610929855f52601b60205260405f2090565b6128ed576001600160401b03612764612501865f52601260205260405f2090565b16156128dc5791611a4661277e9261280896943691610cc4565b906020612793845f52601c60205260405f2090565b549283159283156128b0575b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906127d48284614c86565b6040805163eb3155b560e01b815233928101928352306020840152908201939093529196879283915f918391606090910190565b03925af1938415610b38575f9461288d575b508391901561287b575061283c905b806109b2845f52601c60205260405f2090565b506128473383614b76565b60405191825233917f3ce52130db4fd2708185a080031a68d0818f4567ebea3af6d5699b343e94c3ef908060208101610ae0565b61283c91612888916147d0565b612829565b6128a89192945060203d602011610b3157610b2281836105f8565b92905f61281a565b90806128c8866128c36128d694826147d0565b614962565b6128d0614be0565b90615326565b9061279f565b604051630309cb8760e51b81528590fd5b60405162560ff960e81b81528590fd5b604051630c1e8ab760e31b81528590fd5b6040516313d0ff5960e31b81528590fd5b346107b95760203660031901126107b957602061293d600435613de3565b6040519015158152f35b346107b9576040806003193601126107b9576004906024356001600160401b0381116107b95761297a903690840161199e565b929092335f52600360205260ff835f20541615612c825760ff825416612c7357335f9081526006602052604090206129b190611d15565b60055411612c645760089081546129d3610929825f52600960205260405f2090565b612c54576129e090613de3565b612c44576129f6612aa0956129fd923691610cc4565b8335614e69565b612a06816143a1565b335f9081526006602052604090204290556020612a2c83545f52600a60205260405f2090565b54918215948515612c2b575b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690612a6d8284614c86565b875163eb3155b560e01b81523391810191825230602083015260408201939093529197889283915f918391606090910190565b03925af1928315610b38577f88167f2528ee6c705aa689dd679e8d486b6cee92c38357a463aa1d6d80bc9546955f94612c0a575b50839015612bfc5790505b612af282545f52600a60205260405f2090565b55612afc82614457565b50612b073383614b76565b612b1d61229382545f52600a60205260405f2090565b50612b3181545f52600c60205260405f2090565b612b3b8154613b3d565b9055612b543361096883545f52600d60205260405f2090565b612b5e8154613b3d565b905581612b783361096884545f52600b60205260405f2090565b548015612bf257612ba491612b8c916147d0565b80610a2d3361096886545f52600b60205260405f2090565b549283925180612bba3394829190602083019252565b0390a3612be2612bd2825f52600c60205260405f2090565b54915f52600f60205260405f2090565b5414612bea57005b61175e6146ad565b50612ba490612b8c565b612c05916147d0565b612adf565b612c2491945060203d602011610b3157610b2281836105f8565b925f612ad4565b90806128c8856128c3612c3e94826147d0565b90612a38565b83516348211b5960e11b81528390fd5b8451631e4f783760e11b81528490fd5b50905163aa9a98df60e01b8152fd5b5090516313d0ff5960e31b8152fd5b509051631a40715960e11b8152fd5b346107b95760203660031901126107b9576004355f526023602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004355f52601260205260206001600160401b0360405f205416604051908152f35b346107b95760203660031901126107b9576004355f52601c602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004355f52600c602052602060405f2054604051908152f35b346107b95760203660031901126107b957335f52600360205260ff60405f20541615612d7d5760ff600454166111db5761175e600435613e38565b604051631a40715960e11b8152600490fd5b346107b95760203660031901126107b9576001600160a01b03612db0610f72565b165f526006602052602060405f2054604051908152f35b346107b95760603660031901126107b95760048035906024356001600160401b0381116107b957612dfb903690830161199e565b60449391933590335f52600360205260409360ff855f20541615612fc15760ff815416612fb35783158015612fa8575b612f9a57612e47611078610929865f52600960205260405f2090565b612f8c5782158015612f84575b612f7657610757612ea1868887877f53dabfd5606e25d22fb9dd706fa1d535a5b75d86c0883f706838283e1b9ddac788612e8f601f54613b3d565b968793612e9b85601f55565b42613a30565b94612ef3612ead610c6b565b8681523360208201528789820152612ec6368585610cc4565b60608201525f60808201525f60a08201525f60c0820152612eee865f526020805260405f2090565b61403a565b612efb614be0565b612f0d855f52602160205260405f2090565b55612f16614be0565b612f28855f52602260205260405f2090565b55612f3e612293855f52602160205260405f2090565b50612f54612293855f52602260205260405f2090565b50612f6587519283923398846141f1565b0390a4519081529081906020820190565b8451630309cb8760e51b8152fd5b508115612e54565b8451631b7506b360e01b8152fd5b8451631e4f783760e11b8152fd5b506008548411612e2b565b84516313d0ff5960e31b8152fd5b8451631a40715960e11b8152fd5b346107b95760203660031901126107b9576004355f526009602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b957600435303303610f4a57610e1081108015613056575b6110f257602754816027557fe9a548e67315439ac624f727fe691585c5cce7759aa57bfbed0e8138cb90d41d5f80a3005b5062278d008111613025565b346107b95760203660031901126107b9576004355f5260296020526130ae60405f2061308d81611839565b9060ff6002600183015492015460405194859460808652608086019061063a565b9260208501528181161515604085015260081c16151560608301520390f35b346107b95760203660031901126107b9576004355f52601060205260405f20805461075760ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b346107b9575f3660031901126107b9576020600554604051908152f35b346107b9575f3660031901126107b957602060405160068152f35b346107b95760203660031901126107b9576004355f526017602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004355f526013602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004355f526021602052602060405f2054604051908152f35b346107b95760203660031901126107b9576004355f526011602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b9576004355f526022602052602060405f2054604051908152f35b346107b9576040806003193601126107b95760049081359061324e610f5c565b9230330361340a5760ff815416611e25576001600160a01b038481169490919085158015613401575b6133f257841580156133e7575b80156133c9575b6133ba576132a4610929865f52601a60205260405f2090565b6133ab5791602091613344935f6132c3885f52600a60205260405f2090565b54936132ce856143a1565b6132e3610e698a5f52601a60205260405f2090565b7f000000000000000000000000000000000000000000000000000000000000000016926133108486614c86565b87516327e5e2a160e11b81526001600160a01b03909316908301908152602081019490945290948593849291839160400190565b03925af18015610b38577fe0c10cea4c59785dadfcae23d3d767babf05be875c7502c2993d03498ac2112792610ae0925f9261338a575b50519081529081906020820190565b6133a491925060203d602011610b3157610b2281836105f8565b905f61337b565b50825163dd291bd160e01b8152fd5b508251631e4f783760e11b8152fd5b506133e2611078610929875f52600960205260405f2090565b61328b565b506008548511613284565b508251630309cb8760e51b8152fd5b50308614613277565b90516399f26d5b60e01b8152fd5b346107b95760203660031901126107b9576004355f52601560205260405f20805461075760ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b346107b95761347836611f6d565b3033036111ed5760048110801561354a575b6110f257610757917fce960f3174633b5259282b502d0ae303d663b90d87a2c6bd04bf7b2966619fb6916134bf602854613b3d565b9283916134cb83602855565b6134d760275442613a30565b936135196134e3610c8a565b6134ee368585610cc4565b81528660208201525f60408201525f6060820152613514865f52602960205260405f2090565b614208565b6135376135296120528484613bf7565b169560405193849384614314565b0390a36040519081529081906020820190565b5061356361107861355e6120e58486613bf7565b614a6a565b61348a565b346107b9575f3660031901126107b95760206040516127118152f35b346107b9575f3660031901126107b9576020601f54604051908152f35b346107b95760403660031901126107b957602061123f6135bf610f5c565b6004355f52600d835260405f209060018060a01b03165f5260205260405f2090565b346107b95760203660031901126107b9576004355f52600e602052602060405f2054604051908152f35b346107b95761361936610d18565b91906136326002610d85845f52602660205260405f2090565b610ed357613648825f52602660205260405f2090565b549261365b61365685614b26565b614542565b600161366f855f52602660205260405f2090565b015403610ec157816136a66136b5927ff0c11a4af5ed9b2f05e570279569efdb92242071e929c3781f2be1f97aec82e99486614579565b60208082518301019101614331565b906136cd6002610e46865f52602660205260405f2090565b61373b8260046136e4885f526020805260405f2090565b01805470ffffffffffffffff0000000000000000001968ffffffffffffffff00600887901b1668ffffffffffffffffff19909216919091176001171660489290921b67ffffffffffffffff60481b16919091179055565b604080516001600160401b03928316815292909116602083015281908101610ae0565b346107b95760203660031901126107b957600435335f52600160205260ff60405f2054161561086d5761379081614352565b505f818152602c6020908152604080832033845290915290205460ff16156137fa575f818152602c602090815260408083203384529091529020805460ff1916905533907f6f4da6e562c1825bd76d8db43d7557bd28b54e7e18286f47bcfed7538c586b635f80a3005b60405163c19f17a960e01b8152600490fd5b346107b95760203660031901126107b9576004355f52601b602052602060ff60405f2054166040519015158152f35b346107b95760203660031901126107b9576001600160a01b0361385c610f72565b165f526001602052602060ff60405f2054166040519015158152f35b346107b9575f3660031901126107b9576020602754604051908152f35b346107b9575f3660031901126107b9576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346107b95760203660031901126107b9576004803590335f52600360205260409060ff825f20541615611e335760ff815416611e2557613918836147a7565b600281015442106139d85781015460ff166139ca57335f90815260076020526040902061394490611d15565b60055411611e175750335f9081526007602052604090204290556139a461396a83614b26565b5f61397d61397783614542565b92615164565b93613986610c5c565b928684526020840152820152611dd6835f52602660205260405f2090565b7f67401e164d58e19a8b59b4854c8d70da760e63dd35bdc849c3952dfd6ee712a75f80a3005b9051630250951f60e01b8152fd5b509051634044bc4d60e11b8152fd5b634e487b7160e01b5f52601160045260245ffd5b5f19810191908211610c4557565b91908203918211610c4557565b908160209103126107b9575190565b6040513d5f823e3d90fd5b91908201809211610c4557565b60405190604082018281106001600160401b038211176105d8576040526001825260203681840137565b634e487b7160e01b5f52603260045260245ffd5b805115613a885760200190565b613a67565b51906001600160401b03821682036107b957565b908160209103126107b957610d1590613a8d565b5f54811015613a88575f80525f805160206154f383398151915201905f90565b5f548015613b29575f1981019080821015613a88577f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e562905f8052016bffffffffffffffffffffffff60a01b81541690555f55565b634e487b7160e01b5f52603160045260245ffd5b5f198114610c455760010190565b5f8054909291835b828110613b5f57505050565b5f828152602c602090815260408083205f805160206154f38339815191528501546001600160a01b0316845290915290205460ff16613ba1575b600101613b53565b93613bad600191613b3d565b949050613b99565b908160209103126107b95751610d1581610ee5565b60026040610c699380518455602081015160018501550151151591019060ff801983541691151516179055565b906004116107b95790600490565b6001600160e01b03199035818116939260048110613c2257505050565b60040360031b82901b16169150565b601f8211613c3e57505050565b5f5260205f20906020601f840160051c83019310613c76575b601f0160051c01905b818110613c6b575050565b5f8155600101613c60565b9091508190613c57565b919080519283516001600160401b0381116105d857613ca981613ca38454610579565b84613c31565b602080601f8311600114613d3b5750613d1692613ce683604094600194610c69999a5f92613d30575b50508160011b915f199060031b1c19161790565b81555b6020850151910180546001600160a01b0319166001600160a01b03909216919091178155925b0151151590565b815460ff60a01b191690151560a01b60ff60a01b16179055565b015190505f80613cd2565b90601f19831696613d4f855f5260205f2090565b925f905b898210613d9a57505083600193613d1696938593604097610c699b9c10613d82575b505050811b018155613ce9565b01515f1960f88460031b161c191690555f8080613d75565b80600185968294968601518155019501930190613d53565b908060209392818452848401375f828201840152601f01601f1916010190565b916020610d15938181520191613db2565b5f52600e60205260405f2054600f60205260405f20548115159182613e2d575b508115613e0e575090565b801515915081613e1c575090565b9050600c60205260405f2054101590565b42101591505f613e03565b335f908152600760205260409020613e4f90611d15565b6005541161402857613e6f611078610929835f52600960205260405f2090565b8015614020575b611a8f57613e8f610929825f52601860205260405f2090565b61400e57613ea8610929825f52601660205260405f2090565b613fd557613ec1611d5d825f52601360205260405f2090565b613ed6611d5d825f52600a60205260405f2090565b335f908152600760205260409020429055613f16613efc825f52600a60205260405f2090565b54613f0f835f52601360205260405f2090565b54906149e6565b613f1f81614457565b5080613f33835f52601460205260405f2090565b55613f3c613a3d565b90613f4682613a7b565b52613f86613f5c613f5683614542565b92615245565b91613f65610c5c565b9084825260208201525f6040820152611dd6835f52601560205260405f2090565b613f9b610e69835f52601660205260405f2090565b80613fae835f52601760205260405f2090565b557f3da524d0085c23e2058a8bc7b5091377dab9df904411fd074882d84dc30ce7225f80a3565b613fe7815f52601760205260405f2090565b547f3da524d0085c23e2058a8bc7b5091377dab9df904411fd074882d84dc30ce7225f80a3565b6040516331d1f0c560e11b8152600490fd5b508015613e76565b60405163aa9a98df60e01b8152600490fd5b81518155602080830151600180840180546001600160a01b0319166001600160a01b03939093169290921790915560408401516002840155600383019160608501518051926001600160401b0384116105d8576140a18461409b8754610579565b87613c31565b602092601f85116001146141765750509361414f936140df8460c095600495610c699a995f92613d305750508160011b915f199060031b1c19161790565b90555b01926141066140f46080830151151590565b859060ff801983541691151516179055565b61414161411d60a08301516001600160401b031690565b855468ffffffffffffffff00191660089190911b68ffffffffffffffff0016178555565b01516001600160401b031690565b67ffffffffffffffff60481b82549160481b169067ffffffffffffffff60481b1916179055565b929190601f1985169061418c875f5260205f2090565b945f915b8383106141da5750505084600494610c6999989461414f989460c098600195106141c2575b505050811b0190556140e2565b01515f1960f88460031b161c191690555f80806141b5565b848601518755958601959481019491810191614190565b604090610d15949281528160208201520191613db2565b919080519283516001600160401b0381116105d85761422b81613ca38454610579565b602080601f831160011461429c57506142869261426783606094600294610c69999a5f92613d305750508160011b915f199060031b1c19161790565b81555b602085015160018201550192613d0f6140f46040830151151590565b815461ff00191690151560081b61ff0016179055565b90601f198316966142b0855f5260205f2090565b925f905b8982106142fc575050836002936142869693600193606097610c699b9c106142e4575b505050811b01815561426a565b01515f1960f88460031b161c191690555f80806142d7565b806001859682949686015181550195019301906142b4565b93929160209161432c91604087526040870191613db2565b930152565b91908260409103126107b957610d15602061434b84613a8d565b9301613a8d565b5f52602b60205260405f2090600182015460018060a01b0381161561438f5760a01c60ff1661437d57565b604051635c8b356360e11b8152600490fd5b6040516349e75a6f60e11b8152600490fd5b156143a857565b6040516321c4e35760e21b8152600490fd5b908115614447575b8015614435575b602090606460018060a01b035f805160206155138339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610b38575f9161441c575090565b610d15915060203d602011610b3157610b2281836105f8565b506020614440614be0565b90506143c9565b9050614451614be0565b906143c2565b610d153082614b76565b5f52602960205260405f20906001820154156144af57600282015460ff81169081156144a1575b5061448f57565b60405163e436bddf60e01b8152600490fd5b60ff915060081c165f614488565b6040516311fa59f360e11b8152600490fd5b5f809160208151910182305af13d15614507573d906144df82610ca9565b916144ed60405193846105f8565b82523d5f602084013e5b156144ff5750565b602081519101fd5b6060906144f7565b9081518082526020808093019301915f5b82811061452e575050505090565b835185529381019392810192600101614520565b6040516145738161455f602082019460408652606083019061450f565b30604083015203601f1981018352826105f8565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561464b57845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210614634575050505091816145f36145f895936110789503826105f8565b614d2f565b614622577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906145d3565b60405163d66ca67560e01b8152600490fd5b5f5490600160401b8210156105d85760018201805f55821015613a88575f80525f805160206154f383398151915290910180546001600160a01b0319166001600160a01b03909216919091179055565b600854805f52600960205260ff60405f205416611a8f575f52600960205260405f20600160ff198254161790556008547f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2565b63ffffffff60e01b166323712bbd60e11b8114908115614796575b8115614785575b8115614774575b8115614763575b8115614752575b8115614744575090565b635c94522760e01b14919050565b63d8fad50b60e01b8114915061473a565b63659d2a6960e01b81149150614733565b6328c688f360e01b8114915061472c565b635ec08d9960e01b81149150614725565b6382e8785b60e01b8114915061471e565b5f526020805260405f20906002820154156147be57565b6040516302eae9e560e51b8152600490fd5b908115614844575b8015614832575b602090606460018060a01b035f805160206155138339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610b38575f9161441c575090565b50602061483d614be0565b90506147df565b905061484e614be0565b906147d8565b9081156148c8575b80156148b6575b602090606460018060a01b035f805160206155138339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af1908115610b38575f9161441c575090565b5060206148c1614c33565b9050614863565b90506148d2614c33565b9061485c565b6fffffffffffffffffffffffffffffffff916020918015614950575b5f8051602061551383398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610b38575f9161441c575090565b50606461495b614c33565b90506148f4565b9081156149d6575b80156149c4575b602090606460018060a01b035f805160206155138339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af1908115610b38575f9161441c575090565b5060206149cf614be0565b9050614971565b90506149e0614be0565b9061496a565b908115614a5a575b8015614a48575b602090606460018060a01b035f805160206155138339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610b38575f9161441c575090565b506020614a53614be0565b90506149f5565b9050614a64614be0565b906149ee565b63ffffffff60e01b166305b0e2cf60e21b8114908115614b15575b8115614b04575b8115614af3575b8115614ae2575b8115614ad1575b8115614ac0575b8115614ab2575090565b63d46fcd5360e01b14919050565b633914807360e11b81149150614aa8565b635720439d60e01b81149150614aa1565b63289f537560e01b81149150614a9a565b63af267f8f60e01b81149150614a93565b638a355a5760e01b81149150614a8c565b637b5b115760e01b81149150614a85565b90604051614b33816105dd565b60028152602081019260403685378193815f52602160205260405f205490835115613a8857525f52602260205260405f205490805160011015613a885760400152565b5f80516020615533833981519152546001600160a01b031691823b156107b957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af18015610b3857614bd75750565b610c69906105c5565b5f8051602061551383398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610b38575f9161441c575090565b5f8051602061551383398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115610b38575f9161441c575090565b5f80516020615533833981519152546001600160a01b031691823b156107b957604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f90829081838160448101614bc6565b6020929190614cf0849282815194859201610619565b019081520190565b91614d2190614d13610d15959360608652606086019061450f565b90848203602086015261063a565b91604081840391015261063a565b919080519160209383850193848611610c4557604001809411610c4557614dd693614d748694614d66604051938492888401614cda565b03601f1981018352826105f8565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90614db890614dac906001600160a01b031681565b6001600160a01b031690565b92604051968795869485936378542ead60e01b855260048501614cf8565b03925af1918215610b38575f92614dec57505090565b610d159250803d10614e0b575b614e0381836105f8565b810190613bb5565b503d614df9565b939261432c90600593606093875260018060a01b0316602087015260806040870152608086019061063a565b939261432c905f93606093875260018060a01b0316602087015260806040870152608086019061063a565b5f8051602061551383398151915254614eb693926020929091614e9690614dac906001600160a01b031681565b905f60405180978195829463196d0b9b60e01b8452339060048501614e12565b03925af1918215610b38575f92614f3d575b505f80516020615533833981519152548290614eee90614dac906001600160a01b031681565b803b156107b957604051630f8e573b60e21b815260048101929092523360248301525f908290604490829084905af18015610b3857614f2a5750565b80614f37610c69926105c5565b8061087f565b614f5791925060203d602011610b3157610b2281836105f8565b905f614ec8565b5f8051602061551383398151915254614eb693926020929091614f8b90614dac906001600160a01b031681565b905f60405180978195829463196d0b9b60e01b8452339060048501614e3e565b906020610d1592818152019061450f565b9291614fd591845260606020850152606084019061450f565b91604063124bd04b60e01b910152565b9291614ffe91845260606020850152606084019061450f565b916040636f80eb9f60e11b910152565b929161502791845260606020850152606084019061450f565b916040632d66d13d60e11b910152565b5f8051602061555383398151915280545f8051602061553383398151915254909392919061506f90614dac906001600160a01b031681565b803b156107b9575f6040518092637d6e912360e11b82528183816150968960048301614fab565b03925af18015610b3857615151575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546150dc90614dac906001600160a01b031681565b90813b156107b9575f6040518093633263b83b60e01b8252818381615105898c60048401614fbc565b03925af18015610b3857610c699361512d936151279261513e575b508661541e565b54613b3d565b5f8051602061555383398151915255565b80614f3761514b926105c5565b5f615120565b80614f3761515e926105c5565b5f6150a5565b5f8051602061555383398151915280545f8051602061553383398151915254909392919061519c90614dac906001600160a01b031681565b803b156107b9575f6040518092637d6e912360e11b82528183816151c38960048301614fab565b03925af18015610b3857615232575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025461520990614dac906001600160a01b031681565b90813b156107b9575f6040518093633263b83b60e01b8252818381615105898c60048401614fe5565b80614f3761523f926105c5565b5f6151d2565b5f8051602061555383398151915280545f8051602061553383398151915254909392919061527d90614dac906001600160a01b031681565b803b156107b9575f6040518092637d6e912360e11b82528183816152a48960048301614fab565b03925af18015610b3857615313575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546152ea90614dac906001600160a01b031681565b90813b156107b9575f6040518093633263b83b60e01b8252818381615105898c6004840161500e565b80614f37615320926105c5565b5f6152b3565b9060646020925f60018060a01b035f8051602061551383398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610b38575f9161441c575090565b5f80516020615513833981519152546040516307227b9160e21b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af1908115610b38575f9161441c575090565b5f80516020615513833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610b38575f9161441c575090565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546154e0575f5260205260405f20908251926001600160401b0384116105d857600160401b84116105d85782548484558085106154ba575b5060206154979101925f5260205f2090565b905f5b8481106154a8575050505050565b8351838201559281019260010161549a565b835f528460205f2091820191015b8181106154d55750615485565b5f81556001016154c8565b604051633f06d22b60e01b8152600490fdfe290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5639e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type CrossDaoTreasuryFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CrossDaoTreasuryFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CrossDaoTreasuryFHE__factory extends ContractFactory {
+  constructor(...args: CrossDaoTreasuryFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _token: AddressLike,
+    _council: AddressLike[],
+    _councilThreshold: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      _token,
+      _council,
+      _councilThreshold,
+      overrides || {}
+    );
+  }
+  override deploy(
+    _token: AddressLike,
+    _council: AddressLike[],
+    _councilThreshold: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      _token,
+      _council,
+      _councilThreshold,
+      overrides || {}
+    ) as Promise<
+      CrossDaoTreasuryFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CrossDaoTreasuryFHE__factory {
+    return super.connect(runner) as CrossDaoTreasuryFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CrossDaoTreasuryFHEInterface {
+    return new Interface(_abi) as CrossDaoTreasuryFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CrossDaoTreasuryFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CrossDaoTreasuryFHE;
+  }
+}
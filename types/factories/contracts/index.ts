@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as crossDaoTreasurySol from "./Cross_DAO_Treasury.sol";
+export { ConfidentialToken__factory } from "./ConfidentialToken__factory";
@@ -22,5 +22,7 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { ConfidentialToken } from "./contracts/ConfidentialToken";
+export { ConfidentialToken__factory } from "./factories/contracts/ConfidentialToken__factory";
+export type { CrossDaoTreasuryFHE } from "./contracts/Cross_DAO_Treasury.sol/CrossDaoTreasuryFHE";
+export { CrossDaoTreasuryFHE__factory } from "./factories/contracts/Cross_DAO_Treasury.sol/CrossDaoTreasuryFHE__factory";